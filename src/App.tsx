@@ -7,7 +7,6 @@ import { PlayerStats } from './components/PlayerStats';
 import { Research } from './components/Research';
 import { CollectionBook } from './components/CollectionBook';
 import { EnhancedGameModes } from './components/EnhancedGameModes';
-import { PokyegMarket } from './components/PokyegMarket';
 import { Tutorial } from './components/Tutorial';
 import { CheatPanel } from './components/CheatPanel';
 import { Mining } from './components/Mining';
@@ -18,15 +17,25 @@ import { OfflineProgress } from './components/OfflineProgress';
 import { BulkActions } from './components/BulkActions';
 import { HamburgerMenuPage } from './components/HamburgerMenuPage';
 import { AdventureSkillSelection } from './components/AdventureSkillSelection';
+import { UnlockToasts } from './components/UnlockToasts';
+import { ModeRunSummary } from './components/ModeRunSummary';
+import { SaveLoadError } from './components/SaveLoadError';
+import { computeEffectiveStats, computeStatsWithItem } from './utils/effectiveStats';
+import { getResearchBonuses } from './utils/research';
+import { isMenuSkillActive } from './utils/menuSkills';
 import { Shield, Package, User, Play, RotateCcw, Brain, Crown, Gift, Pickaxe, Menu, ArrowLeft } from 'lucide-react';
 
 type GameView = 'stats' | 'shop' | 'inventory' | 'research' | 'mining' | 'menu';
-type ModalView = 'collection' | 'gameMode' | 'pokyegMarket' | 'tutorial' | 'cheats' | 'resetConfirm' | 'dailyRewards' | 'offlineProgress' | 'bulkActions' | null;
+type ModalView = 'collection' | 'gameMode' | 'tutorial' | 'cheats' | 'resetConfirm' | 'dailyRewards' | 'offlineProgress' | 'bulkActions' | null;
 
 function App() {
   const {
     gameState,
     isLoading,
+    loadError,
+    restoreBackup,
+    getBackupSave,
+    startNewGameAfterLoadError,
     equipWeapon,
     equipArmor,
     upgradeWeapon,
@@ -35,30 +44,44 @@ function App() {
     sellArmor,
     upgradeResearch,
     openChest,
-    purchaseMythical,
+    purchaseMultiplier,
     startCombat,
     attack,
     resetGame,
     setGameMode,
+    dismissRunSummary,
     toggleCheat,
     generateCheatItem,
     mineGem,
+    buyMiningTool,
     exchangeShinyGems,
     discardItem,
     purchaseRelic,
+    rerollRelics,
     upgradeRelic,
     equipRelic,
     unequipRelic,
     sellRelic,
+    saveRelicLoadout,
+    equipRelicLoadout,
+    deleteRelicLoadout,
     claimDailyReward,
+    setDailyResetHour,
     upgradeSkill,
     prestige,
+    purchasePrestigeUpgrade,
     claimOfflineRewards,
+    dismissNotification,
+    repairItem,
+    bulkRepair,
     bulkSell,
     bulkUpgrade,
     plantSeed,
     buyWater,
     updateSettings,
+    importQuestionPack,
+    setQuestionPackEnabled,
+    deleteQuestionPack,
     addCoins,
     addGems,
     teleportToZone,
@@ -67,6 +90,7 @@ function App() {
     selectAdventureSkill,
     skipAdventureSkills,
     useSkipCard,
+    retreatFromRun,
   } = useGameState();
 
   const [currentView, setCurrentView] = useState<GameView>('stats');
@@ -85,6 +109,17 @@ function App() {
     );
   }
 
+  if (loadError) {
+    return (
+      <SaveLoadError
+        error={loadError}
+        onRestoreBackup={restoreBackup}
+        onGetBackup={getBackupSave}
+        onStartNewGame={startNewGameAfterLoadError}
+      />
+    );
+  }
+
   // Show adventure skill selection modal
   if (gameState?.adventureSkills?.showSelectionModal && !gameState.inCombat) {
     return (
@@ -174,6 +209,8 @@ function App() {
     );
   }
 
+  const effectiveStats = computeEffectiveStats(gameState);
+
   const handleResetGame = () => {
     setCurrentModal('resetConfirm');
   };
@@ -189,6 +226,14 @@ function App() {
         <Combat
           enemy={gameState.currentEnemy}
           playerStats={gameState.playerStats}
+          playerStatus={gameState.playerStatus}
+          effectiveStats={effectiveStats}
+          questionTimeBonus={getResearchBonuses(gameState.research).questionTime}
+          questionPacks={gameState.questionPacks}
+          questionHistory={gameState.questionHistory}
+          difficultyRatings={gameState.difficultyRatings}
+          questionDifficulty={gameState.settings.questionDifficulty}
+          progression={gameState.progression}
           onAttack={attack}
           combatLog={gameState.combatLog}
           gameMode={gameState.gameMode}
@@ -196,6 +241,7 @@ function App() {
           hasUsedRevival={gameState.hasUsedRevival}
           adventureSkills={gameState.adventureSkills}
           onUseSkipCard={useSkipCard}
+          onRetreat={retreatFromRun}
         />
       );
     }
@@ -209,13 +255,19 @@ function App() {
             onBuyWater={buyWater}
             onUpgradeSkill={upgradeSkill}
             onPrestige={prestige}
+            onPurchasePrestigeUpgrade={purchasePrestigeUpgrade}
             onUpdateSettings={updateSettings}
+            onImportQuestionPack={importQuestionPack}
+            onSetQuestionPackEnabled={setQuestionPackEnabled}
+            onDeleteQuestionPack={deleteQuestionPack}
             onAddCoins={addCoins}
             onAddGems={addGems}
             onTeleportToZone={teleportToZone}
             onSetExperience={setExperience}
             onRollSkill={rollSkill}
             onPurchaseRelic={purchaseRelic}
+            onRerollRelics={rerollRelics}
+            onPurchaseMultiplier={purchaseMultiplier}
             onBack={() => setCurrentView('stats')}
           />
         );
@@ -224,6 +276,7 @@ function App() {
           <div className="space-y-6">
             <PlayerStats
               playerStats={gameState.playerStats}
+              effectiveStats={effectiveStats}
               zone={gameState.zone}
               coins={gameState.coins}
               gems={gameState.gems}
@@ -363,6 +416,7 @@ function App() {
           <Inventory
             inventory={gameState.inventory}
             gems={gameState.gems}
+            coins={gameState.coins}
             onEquipWeapon={equipWeapon}
             onEquipArmor={equipArmor}
             onUpgradeWeapon={upgradeWeapon}
@@ -373,6 +427,13 @@ function App() {
             onEquipRelic={equipRelic}
             onUnequipRelic={unequipRelic}
             onSellRelic={sellRelic}
+            onRepairItem={repairItem}
+            inCombat={gameState.inCombat}
+            onSaveRelicLoadout={saveRelicLoadout}
+            onEquipRelicLoadout={equipRelicLoadout}
+            onDeleteRelicLoadout={deleteRelicLoadout}
+            effectiveStats={effectiveStats}
+            previewStats={item => computeStatsWithItem(gameState, item)}
           />
         );
       case 'research':
@@ -388,9 +449,12 @@ function App() {
         return (
           <Mining
             mining={gameState.mining}
+            coins={gameState.coins}
             gems={gameState.gems}
             shinyGems={gameState.shinyGems}
+            luckGemActive={isMenuSkillActive(gameState.skills, 'luck_gem', new Date())}
             onMineGem={mineGem}
+            onBuyMiningTool={buyMiningTool}
             onExchangeShinyGems={exchangeShinyGems}
           />
         );
@@ -423,14 +487,6 @@ function App() {
             onClose={() => setCurrentModal(null)}
           />
         );
-      case 'pokyegMarket':
-        return (
-          <PokyegMarket
-            coins={gameState.coins}
-            onPurchaseMythical={purchaseMythical}
-            onClose={() => setCurrentModal(null)}
-          />
-        );
       case 'tutorial':
         return (
           <Tutorial
@@ -451,6 +507,7 @@ function App() {
           <DailyRewards
             dailyRewards={gameState.dailyRewards}
             onClaimReward={claimDailyReward}
+            onSetResetHour={setDailyResetHour}
             onClose={() => setCurrentModal(null)}
           />
         );
@@ -468,8 +525,10 @@ function App() {
             weapons={gameState.inventory.weapons}
             armor={gameState.inventory.armor}
             gems={gameState.gems}
+            coins={gameState.coins}
             onBulkSell={bulkSell}
             onBulkUpgrade={bulkUpgrade}
+            onBulkRepair={bulkRepair}
             onClose={() => setCurrentModal(null)}
           />
         );
@@ -524,6 +583,14 @@ function App() {
       {/* PWA Install Prompt */}
       <PWAInstallPrompt />
 
+      {/* Achievement and tag unlock toasts */}
+      <UnlockToasts notifications={gameState.notificationQueue} onDismiss={dismissNotification} />
+
+      {/* End-of-run summary for Survival, Time Attack and Boss Rush */}
+      {gameState.gameMode.lastRunSummary && (
+        <ModeRunSummary summary={gameState.gameMode.lastRunSummary} onClose={dismissRunSummary} />
+      )}
+
       {/* Header */}
       <div className="bg-gradient-to-r from-purple-800 via-violet-800 to-purple-800 shadow-2xl relative z-10 border-b border-purple-500/30">
         <div className="container mx-auto px-4 py-4 sm:py-6">
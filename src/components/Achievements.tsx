@@ -146,7 +146,7 @@ export const Achievements: React.FC<AchievementsProps> = ({ achievements, onClos
                   {/* Unlock Date */}
                   {achievement.unlocked && achievement.unlockedAt && (
                     <p className="text-xs text-gray-400 mt-1">
-                      Unlocked: {new Date(achievement.unlockedAt).toLocaleDateString()}
+                      Unlocked: {achievement.unlockedAt.toLocaleDateString()}
                     </p>
                   )}
                 </div>
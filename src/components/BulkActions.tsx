@@ -1,14 +1,17 @@
 import React, { useState } from 'react';
 import { Weapon, Armor } from '../types/game';
-import { Package, Coins, Gem, Trash2, TrendingUp, X, CheckSquare, Square } from 'lucide-react';
-import { getRarityColor, getRarityBorder } from '../utils/gameUtils';
+import { Package, Coins, Gem, Trash2, TrendingUp, X, CheckSquare, Square, Wrench } from 'lucide-react';
+import { getRarityColor, getRarityBorder, getRepairCost } from '../utils/gameUtils';
+import { getTotalRepairCost, isItemBroken, isItemDamaged } from '../utils/equipment';
 
 interface BulkActionsProps {
   weapons: Weapon[];
   armor: Armor[];
   gems: number;
+  coins: number;
   onBulkSell: (itemIds: string[], type: 'weapon' | 'armor') => void;
   onBulkUpgrade: (itemIds: string[], type: 'weapon' | 'armor') => void;
+  onBulkRepair: (itemIds: string[], type: 'weapon' | 'armor') => void;
   onClose: () => void;
 }
 
@@ -16,13 +19,15 @@ export const BulkActions: React.FC<BulkActionsProps> = ({
   weapons,
   armor,
   gems,
+  coins,
   onBulkSell,
   onBulkUpgrade,
+  onBulkRepair,
   onClose
 }) => {
   const [activeTab, setActiveTab] = useState<'weapons' | 'armor'>('weapons');
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
-  const [actionType, setActionType] = useState<'sell' | 'upgrade'>('sell');
+  const [actionType, setActionType] = useState<'sell' | 'upgrade' | 'repair'>('sell');
 
   const currentItems = activeTab === 'weapons' ? weapons : armor;
   const selectedItemsArray = currentItems.filter(item => selectedItems.has(item.id));
@@ -53,6 +58,8 @@ export const BulkActions: React.FC<BulkActionsProps> = ({
   const getTotalValue = () => {
     if (actionType === 'sell') {
       return selectedItemsArray.reduce((total, item) => total + item.sellPrice, 0);
+    } else if (actionType === 'repair') {
+      return getTotalRepairCost(selectedItemsArray.filter(isItemDamaged));
     } else {
       return selectedItemsArray.reduce((total, item) => total + item.upgradeCost, 0);
     }
@@ -63,6 +70,9 @@ export const BulkActions: React.FC<BulkActionsProps> = ({
     if (actionType === 'upgrade') {
       return gems >= getTotalValue();
     }
+    if (actionType === 'repair') {
+      return selectedItemsArray.some(isItemDamaged) && coins >= getTotalValue();
+    }
     return true;
   };
 
@@ -72,6 +82,8 @@ export const BulkActions: React.FC<BulkActionsProps> = ({
     const itemIds = Array.from(selectedItems);
     if (actionType === 'sell') {
       onBulkSell(itemIds, activeTab === 'weapons' ? 'weapon' : 'armor');
+    } else if (actionType === 'repair') {
+      onBulkRepair(itemIds, activeTab === 'weapons' ? 'weapon' : 'armor');
     } else {
       onBulkUpgrade(itemIds, activeTab === 'weapons' ? 'weapon' : 'armor');
     }
@@ -145,6 +157,17 @@ export const BulkActions: React.FC<BulkActionsProps> = ({
             <TrendingUp className="w-4 h-4" />
             Bulk Upgrade
           </button>
+          <button
+            onClick={() => setActionType('repair')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+              actionType === 'repair'
+                ? 'bg-green-600 text-white'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            <Wrench className="w-4 h-4" />
+            Bulk Repair
+          </button>
         </div>
 
         {/* Selection Controls */}
@@ -212,6 +235,10 @@ export const BulkActions: React.FC<BulkActionsProps> = ({
                     <span className="text-yellow-400">Sell: {item.sellPrice}</span>
                     <span className="text-purple-400">Up: {item.upgradeCost}</span>
                   </div>
+                  <p className={isItemBroken(item) ? 'text-red-400' : 'text-gray-400'}>
+                    Durability: {item.durability}/{item.maxDurability}
+                    {isItemDamaged(item) && ` (Repair: ${getRepairCost(item)})`}
+                  </p>
                 </div>
               </div>
             );
@@ -226,7 +253,7 @@ export const BulkActions: React.FC<BulkActionsProps> = ({
                 Selected: {selectedItems.size} items
               </p>
               <p className="text-gray-300 text-sm">
-                Total {actionType === 'sell' ? 'value' : 'cost'}: {getTotalValue().toLocaleString()} {actionType === 'sell' ? 'coins' : 'gems'}
+                Total {actionType === 'sell' ? 'value' : 'cost'}: {getTotalValue().toLocaleString()} {actionType === 'upgrade' ? 'gems' : 'coins'}
               </p>
             </div>
             
@@ -237,11 +264,13 @@ export const BulkActions: React.FC<BulkActionsProps> = ({
                 canPerformAction()
                   ? actionType === 'sell'
                     ? 'bg-red-600 text-white hover:bg-red-500'
-                    : 'bg-purple-600 text-white hover:bg-purple-500'
+                    : actionType === 'repair'
+                      ? 'bg-green-600 text-white hover:bg-green-500'
+                      : 'bg-purple-600 text-white hover:bg-purple-500'
                   : 'bg-gray-600 text-gray-400 cursor-not-allowed'
               }`}
             >
-              {actionType === 'sell' ? 'Sell Selected' : 'Upgrade Selected'}
+              {actionType === 'sell' ? 'Sell Selected' : actionType === 'repair' ? 'Repair Selected' : 'Upgrade Selected'}
             </button>
           </div>
           
@@ -250,6 +279,11 @@ export const BulkActions: React.FC<BulkActionsProps> = ({
               Not enough gems! Need {getTotalValue() - gems} more gems.
             </p>
           )}
+          {actionType === 'repair' && coins < getTotalValue() && selectedItems.size > 0 && (
+            <p className="text-red-400 text-sm mt-2">
+              Not enough coins! Need {getTotalValue() - coins} more coins.
+            </p>
+          )}
         </div>
       </div>
     </div>
@@ -1,7 +1,16 @@
-import React, { useState, useEffect } from 'react';
-import { Enemy } from '../types/game';
-import { Sword, Shield, Heart, Brain, Clock, Zap, Skull, Flame, RotateCcw, SkipForward } from 'lucide-react';
-import { TriviaQuestion, getQuestionByZone, checkAnswer } from '../utils/triviaQuestions';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { DifficultyRatings, EffectiveStats, Enemy, GameMode, GameSettings, PlayerStatus, ProgressionSystem, QuestionHistory, QuestionPacks, TriviaQuestion } from '../types/game';
+import { Sword, Shield, Heart, Brain, Clock, Zap, Skull, Flame, RotateCcw, SkipForward, Timer, Target, Award, LogOut } from 'lucide-react';
+import { getQuestionForSetting } from '../utils/difficultyRating';
+import { AnswerResult, CLOSE_ANSWER_CREDIT, evaluateAnswer } from '../utils/answerChecking';
+import { getEnabledQuestions } from '../utils/questionPacks';
+import { abilityDescriptions, getQuestionTime } from '../utils/enemies';
+import { formatStatBreakdown } from '../utils/effectiveStats';
+import { formatMasteryPerkEffect, getMasteryBonus, getMasteryLevel, getMasteryPerk } from '../utils/mastery';
+
+// The countdown runs in milliseconds so half-second bonuses from research and
+// mastery count in full; it is shown rounded up to whole seconds
+const TIMER_TICK_MS = 100;
 
 interface CombatProps {
   enemy: Enemy;
@@ -11,14 +20,17 @@ interface CombatProps {
     atk: number;
     def: number;
   };
-  onAttack: (hit: boolean, category?: string) => void;
+  playerStatus: PlayerStatus;
+  effectiveStats: EffectiveStats;
+  questionTimeBonus: number;
+  questionPacks: QuestionPacks;
+  questionHistory: QuestionHistory;
+  difficultyRatings: DifficultyRatings;
+  questionDifficulty: GameSettings['questionDifficulty'];
+  progression: ProgressionSystem;
+  onAttack: (hit: boolean, category?: string, questionId?: string, credit?: number) => void;
   combatLog: string[];
-  gameMode: {
-    current: 'normal' | 'blitz' | 'bloodlust' | 'crazy';
-    speedModeActive: boolean;
-    survivalLives: number;
-    maxSurvivalLives: number;
-  };
+  gameMode: GameMode;
   knowledgeStreak: {
     current: number;
     best: number;
@@ -37,32 +49,53 @@ interface CombatProps {
     };
   };
   onUseSkipCard?: () => void;
+  onRetreat?: () => void;
 }
 
 export const Combat: React.FC<CombatProps> = ({ 
   enemy, 
   playerStats, 
+  playerStatus,
+  effectiveStats,
+  questionTimeBonus,
+  questionPacks,
+  questionHistory,
+  difficultyRatings,
+  questionDifficulty,
+  progression,
   onAttack, 
   combatLog, 
   gameMode,
   knowledgeStreak,
   hasUsedRevival = false,
   adventureSkills,
-  onUseSkipCard
+  onUseSkipCard,
+  onRetreat
 }) => {
   const [currentQuestion, setCurrentQuestion] = useState<TriviaQuestion | null>(null);
   const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
   const [typedAnswer, setTypedAnswer] = useState<string>('');
   const [isAnswering, setIsAnswering] = useState(false);
-  const [timeLeft, setTimeLeft] = useState(8);
+  const [timeLeftMs, setTimeLeftMs] = useState(8000);
   const [showResult, setShowResult] = useState(false);
-  const [lastAnswerCorrect, setLastAnswerCorrect] = useState<boolean | null>(null);
+  const [lastAnswerResult, setLastAnswerResult] = useState<AnswerResult | null>(null);
 
-  // Increased time limits to make the game easier
-  const questionTime = (gameMode.current === 'blitz' || gameMode.current === 'bloodlust') ? 5 : 8;
+  const activeRun = gameMode.activeRun;
+  const isSurvivalRun = activeRun?.mode === 'survival';
+
+  const questionTime = getQuestionTime(gameMode.current, enemy, questionTimeBonus);
+  const enemyAbility = enemy.specialAbility ? abilityDescriptions[enemy.specialAbility] : null;
+  const questions = useMemo(() => getEnabledQuestions(questionPacks), [questionPacks]);
+  // Read through refs so recording an answer doesn't count as a new fight
+  const historyRef = useRef(questionHistory);
+  historyRef.current = questionHistory;
+  const ratingsRef = useRef(difficultyRatings);
+  ratingsRef.current = difficultyRatings;
+  const progressionRef = useRef(progression);
+  progressionRef.current = progression;
 
   useEffect(() => {
-    let question = getQuestionByZone(enemy.zone);
+    let question = getQuestionForSetting(questionDifficulty, enemy.zone, questions, ratingsRef.current, historyRef.current);
     
     // Apply truth and lies skill effect
     if (adventureSkills?.skillEffects.truthLiesActive && question.type === 'multiple-choice' && question.options) {
@@ -83,23 +116,24 @@ export const Combat: React.FC<CombatProps> = ({
     setCurrentQuestion(question);
     setSelectedAnswer(null);
     setTypedAnswer('');
-    setTimeLeft(questionTime);
+    // Time perks give extra seconds on their own category's questions
+    setTimeLeftMs((questionTime + getMasteryBonus(progressionRef.current, question.category, 'time')) * 1000);
     setShowResult(false);
-    setLastAnswerCorrect(null);
-  }, [enemy, questionTime, adventureSkills?.skillEffects.truthLiesActive]);
+    setLastAnswerResult(null);
+  }, [enemy, questionTime, questions, questionDifficulty, adventureSkills?.skillEffects.truthLiesActive]);
 
   useEffect(() => {
     if (!currentQuestion || isAnswering || showResult) return;
 
     const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
+      setTimeLeftMs(prev => {
+        if (prev <= TIMER_TICK_MS) {
           handleAnswer(null);
           return 0;
         }
-        return prev - 1;
+        return prev - TIMER_TICK_MS;
       });
-    }, 1000);
+    }, TIMER_TICK_MS);
 
     return () => clearInterval(timer);
   }, [currentQuestion, isAnswering, showResult]);
@@ -117,21 +151,22 @@ export const Combat: React.FC<CombatProps> = ({
       userAnswer = typedAnswer;
     }
 
-    const isCorrect = checkAnswer(currentQuestion, userAnswer);
-    setLastAnswerCorrect(isCorrect);
+    const result = evaluateAnswer(currentQuestion, userAnswer);
+    setLastAnswerResult(result);
     setShowResult(true);
 
     setTimeout(() => {
-      onAttack(isCorrect, currentQuestion.category);
+      onAttack(result !== 'wrong', currentQuestion.category, currentQuestion.id, result === 'close' ? CLOSE_ANSWER_CREDIT : 1);
       
-      const newQuestion = getQuestionByZone(enemy.zone);
+      // The history and ratings in the refs don't include this answer yet
+      const newQuestion = getQuestionForSetting(questionDifficulty, enemy.zone, questions, ratingsRef.current, historyRef.current, [currentQuestion.id]);
       setCurrentQuestion(newQuestion);
       setSelectedAnswer(null);
       setTypedAnswer('');
       setIsAnswering(false);
-      setTimeLeft(questionTime);
+      setTimeLeftMs((questionTime + getMasteryBonus(progressionRef.current, newQuestion.category, 'time')) * 1000);
       setShowResult(false);
-      setLastAnswerCorrect(null);
+      setLastAnswerResult(null);
     }, 2000);
   };
 
@@ -166,6 +201,9 @@ export const Combat: React.FC<CombatProps> = ({
       case 'blitz': return <Zap className="w-5 h-5 text-yellow-400 animate-pulse" />;
       case 'bloodlust': return <Sword className="w-5 h-5 text-red-400 animate-pulse" />;
       case 'crazy': return <Skull className="w-5 h-5 text-purple-400 animate-pulse" />;
+      case 'survival': return <Shield className="w-5 h-5 text-green-400" />;
+      case 'timeAttack': return <Timer className="w-5 h-5 text-orange-400 animate-pulse" />;
+      case 'boss': return <Target className="w-5 h-5 text-pink-400" />;
       default: return <Clock className="w-5 h-5 text-blue-400" />;
     }
   };
@@ -175,6 +213,9 @@ export const Combat: React.FC<CombatProps> = ({
       case 'blitz': return 'bg-yellow-600';
       case 'bloodlust': return 'bg-red-600';
       case 'crazy': return 'bg-purple-600';
+      case 'survival': return 'bg-green-600';
+      case 'timeAttack': return 'bg-orange-600';
+      case 'boss': return 'bg-pink-600';
       default: return 'bg-blue-600';
     }
   };
@@ -190,6 +231,10 @@ export const Combat: React.FC<CombatProps> = ({
     );
   }
 
+  const secondsLeft = Math.ceil(timeLeftMs / 1000);
+  const masteryPerk = getMasteryPerk(currentQuestion.category);
+  const masteryLevel = getMasteryLevel(progression, currentQuestion.category);
+
   return (
     <div className="bg-gradient-to-br from-red-900/80 via-purple-900/80 to-black/80 p-6 rounded-xl shadow-2xl backdrop-blur-sm border border-red-500/50">
       {/* Question Section - Moved to top */}
@@ -202,9 +247,9 @@ export const Combat: React.FC<CombatProps> = ({
           <div className="flex items-center gap-3">
             <Clock className="w-5 h-5 text-yellow-400" />
             <span className={`font-bold text-lg px-3 py-1 rounded-lg ${
-              timeLeft <= 3 ? 'text-red-400 animate-pulse bg-red-900/30' : 'text-yellow-400 bg-yellow-900/30'
+              secondsLeft <= 3 ? 'text-red-400 animate-pulse bg-red-900/30' : 'text-yellow-400 bg-yellow-900/30'
             }`}>
-              {timeLeft}s
+              {secondsLeft}s
             </span>
           </div>
         </div>
@@ -222,6 +267,16 @@ export const Combat: React.FC<CombatProps> = ({
               </span>
             </div>
           </div>
+          <div
+            className={`flex items-center justify-center gap-2 text-xs mb-4 ${masteryLevel > 0 ? 'text-yellow-300' : 'text-gray-500'}`}
+            title={`${masteryPerk.name}: ${formatMasteryPerkEffect(masteryPerk, 1)} per ${currentQuestion.category} mastery level`}
+          >
+            <Award className="w-4 h-4" />
+            <span>
+              {currentQuestion.category} Mastery {masteryLevel} · {masteryPerk.name}
+              {masteryLevel > 0 ? `: ${formatMasteryPerkEffect(masteryPerk, masteryLevel)}` : ' (unlocks at level 1)'}
+            </span>
+          </div>
           <p className="text-white font-semibold text-lg sm:text-xl mb-6 leading-relaxed text-center">
             {currentQuestion.question}
           </p>
@@ -301,18 +356,22 @@ export const Combat: React.FC<CombatProps> = ({
         {/* Result Feedback */}
         {showResult && (
           <div className={`text-center p-4 rounded-xl ${
-            lastAnswerCorrect 
+            lastAnswerResult === 'correct'
               ? 'bg-green-900/50 border border-green-500' 
-              : 'bg-red-900/50 border border-red-500'
+              : lastAnswerResult === 'close'
+                ? 'bg-yellow-900/50 border border-yellow-500'
+                : 'bg-red-900/50 border border-red-500'
           }`}>
             <p className={`font-bold text-lg ${
-              lastAnswerCorrect ? 'text-green-400' : 'text-red-400'
+              lastAnswerResult === 'correct' ? 'text-green-400' : lastAnswerResult === 'close' ? 'text-yellow-400' : 'text-red-400'
             }`}>
-              {lastAnswerCorrect 
+              {lastAnswerResult === 'correct'
                 ? '🎉 Correct! You deal damage!' 
-                : '❌ Wrong! The enemy attacks you!'}
+                : lastAnswerResult === 'close'
+                  ? `🤏 Close, but not quite! You deal ${CLOSE_ANSWER_CREDIT * 100}% damage.`
+                  : '❌ Wrong! The enemy attacks you!'}
             </p>
-            {!lastAnswerCorrect && (
+            {lastAnswerResult !== 'correct' && (
               <p className="text-gray-300 text-sm mt-2">
                 Correct answer: {currentQuestion.type === 'multiple-choice' 
                   ? `${String.fromCharCode(65 + (currentQuestion.correctAnswer as number))}. ${currentQuestion.options?.[currentQuestion.correctAnswer as number]}`
@@ -330,7 +389,9 @@ export const Combat: React.FC<CombatProps> = ({
           <h2 className="text-2xl sm:text-3xl font-bold text-white">Combat - Zone {enemy.zone}</h2>
           {getModeIcon()}
         </div>
-        <p className="text-red-300 text-xl font-semibold">{enemy.name}</p>
+        <p className="text-red-300 text-xl font-semibold">
+          {enemy.isBoss && '👑 '}{enemy.name}
+        </p>
         
         {/* Game Mode Info */}
         <div className="flex flex-wrap items-center justify-center gap-4 mt-4">
@@ -344,13 +405,49 @@ export const Combat: React.FC<CombatProps> = ({
             </span>
           )}
 
-          {!hasUsedRevival && (
+          {!hasUsedRevival && !isSurvivalRun && (
             <span className="text-green-300 flex items-center gap-2 bg-green-900/30 px-3 py-1 rounded-lg">
               <RotateCcw className="w-4 h-4" />
               Revival Available
             </span>
           )}
 
+          {/* Run Progress */}
+          {isSurvivalRun && (
+            <span className="text-green-300 flex items-center gap-2 bg-green-900/30 px-3 py-1 rounded-lg">
+              <Heart className="w-4 h-4" />
+              Lives: {gameMode.survivalLives}/{gameMode.maxSurvivalLives}
+            </span>
+          )}
+
+          {activeRun?.mode === 'timeAttack' && (
+            <span className={`flex items-center gap-2 px-3 py-1 rounded-lg ${
+              gameMode.timeAttackTimeLeft <= 10 ? 'text-red-300 bg-red-900/30 animate-pulse' : 'text-orange-300 bg-orange-900/30'
+            }`}>
+              <Timer className="w-4 h-4" />
+              {gameMode.timeAttackTimeLeft}s | Score: {activeRun.score}
+            </span>
+          )}
+
+          {activeRun?.mode === 'boss' && (
+            <span className="text-pink-300 flex items-center gap-2 bg-pink-900/30 px-3 py-1 rounded-lg">
+              <Target className="w-4 h-4" />
+              Bosses Defeated: {gameMode.bossProgress}
+            </span>
+          )}
+
+          {/* Runs chain enemies until you lose or leave */}
+          {activeRun && onRetreat && (
+            <button
+              onClick={onRetreat}
+              className="text-gray-200 flex items-center gap-2 bg-gray-700/60 hover:bg-gray-600/60 px-3 py-1 rounded-lg transition-all"
+              title="End the run now and keep the rewards earned so far"
+            >
+              <LogOut className="w-4 h-4" />
+              Retreat
+            </button>
+          )}
+
           {/* Adventure Skill Display */}
           {adventureSkills?.selectedSkill && (
             <span className="text-purple-300 flex items-center gap-2 bg-purple-900/30 px-3 py-1 rounded-lg">
@@ -367,7 +464,7 @@ export const Combat: React.FC<CombatProps> = ({
           <div className="flex items-center gap-3 mb-3">
             <Heart className="w-5 h-5 text-red-400" />
             <span className="text-white font-semibold">You</span>
-            {!hasUsedRevival && (
+            {!hasUsedRevival && !isSurvivalRun && (
               <span className="text-green-400 text-xs bg-green-900/30 px-2 py-1 rounded-full">
                 💖 Revival Ready
               </span>
@@ -376,20 +473,25 @@ export const Combat: React.FC<CombatProps> = ({
           <div className="w-full bg-gray-700 rounded-full h-4">
             <div 
               className="bg-gradient-to-r from-green-500 to-green-400 h-4 rounded-full transition-all duration-300"
-              style={{ width: `${(playerStats.hp / playerStats.maxHp) * 100}%` }}
+              style={{ width: `${(playerStats.hp / effectiveStats.maxHp.total) * 100}%` }}
             />
           </div>
-          <p className="text-sm text-gray-300 mt-2 text-center">{playerStats.hp}/{playerStats.maxHp}</p>
+          <p className="text-sm text-gray-300 mt-2 text-center" title={formatStatBreakdown(effectiveStats.maxHp)}>{playerStats.hp}/{effectiveStats.maxHp.total}</p>
           <div className="flex justify-center gap-4 mt-3 text-sm">
-            <span className="text-orange-400 flex items-center gap-1">
+            <span className="text-orange-400 flex items-center gap-1 cursor-help" title={formatStatBreakdown(effectiveStats.atk)}>
               <Sword className="w-4 h-4" />
-              {playerStats.atk}
+              {effectiveStats.atk.total}
             </span>
-            <span className="text-blue-400 flex items-center gap-1">
+            <span className="text-blue-400 flex items-center gap-1 cursor-help" title={formatStatBreakdown(effectiveStats.def)}>
               <Shield className="w-4 h-4" />
-              {playerStats.def}
+              {effectiveStats.def.total}
             </span>
           </div>
+          {playerStatus.poisonTurns > 0 && (
+            <div className="flex justify-center mt-2 text-xs">
+              <span className="text-green-300 bg-green-900/30 px-2 py-1 rounded-full">☠️ Poisoned ({playerStatus.poisonTurns} turns)</span>
+            </div>
+          )}
         </div>
 
         <div className="bg-black/40 p-4 rounded-xl border border-red-500/30">
@@ -414,6 +516,22 @@ export const Combat: React.FC<CombatProps> = ({
               {enemy.def}
             </span>
           </div>
+          {enemyAbility && (
+            <div className="mt-3 text-center">
+              <span className="text-pink-300 text-xs bg-pink-900/30 px-2 py-1 rounded-full" title={enemyAbility.description}>
+                ✨ {enemyAbility.name}
+              </span>
+              <p className="text-gray-400 text-xs mt-1">{enemyAbility.description}</p>
+            </div>
+          )}
+          <div className="flex flex-wrap justify-center gap-2 mt-2 text-xs">
+            {!!enemy.shield && enemy.shield > 0 && (
+              <span className="text-cyan-300 bg-cyan-900/30 px-2 py-1 rounded-full">🛡️ Shield {enemy.shield}</span>
+            )}
+            {enemy.isEnraged && (
+              <span className="text-red-300 bg-red-900/30 px-2 py-1 rounded-full">😡 Enraged</span>
+            )}
+          </div>
         </div>
       </div>
 
@@ -1,16 +1,19 @@
 import React, { useState } from 'react';
-import { DailyRewards as DailyRewardsType, DailyReward } from '../types/game';
+import { DailyRewards as DailyRewardsType } from '../types/game';
 import { Gift, Calendar, Coins, Gem, Star, X, Clock } from 'lucide-react';
+import { DAILY_REWARD_CYCLE_DAYS, getClaimedDaysInCycle, getDayRewardPreview, getNextResetTime } from '../utils/dailyRewards';
 
 interface DailyRewardsProps {
   dailyRewards: DailyRewardsType;
   onClaimReward: () => boolean;
+  onSetResetHour: (resetHour: number) => void;
   onClose: () => void;
 }
 
 export const DailyRewards: React.FC<DailyRewardsProps> = ({
   dailyRewards,
   onClaimReward,
+  onSetResetHour,
   onClose
 }) => {
   const [claiming, setClaiming] = useState(false);
@@ -28,23 +31,13 @@ export const DailyRewards: React.FC<DailyRewardsProps> = ({
     }
   };
 
-  const getDayReward = (day: number): DailyReward => {
-    const baseCoins = 50 + (day * 25);
-    const baseGems = 5 + Math.floor(day / 2);
-    
-    return {
-      day,
-      coins: baseCoins,
-      gems: baseGems,
-      special: day === 7 ? 'Legendary Chest' : day === 14 ? 'Mythical Item' : undefined,
-      claimed: false
-    };
-  };
-
   const canClaim = dailyRewards.availableReward !== null;
-  const nextRewardIn = dailyRewards.lastClaimDate 
-    ? Math.max(0, 24 - Math.floor((Date.now() - new Date(dailyRewards.lastClaimDate).getTime()) / (1000 * 60 * 60)))
-    : 0;
+  const msUntilReset = getNextResetTime(new Date(), dailyRewards.resetHour).getTime() - Date.now();
+  const hoursUntilReset = Math.floor(msUntilReset / (1000 * 60 * 60));
+  const minutesUntilReset = Math.floor((msUntilReset % (1000 * 60 * 60)) / (1000 * 60));
+  const claimedDays = getClaimedDaysInCycle(dailyRewards);
+
+  const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
 
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
@@ -92,6 +85,12 @@ export const DailyRewards: React.FC<DailyRewardsProps> = ({
                 )}
               </div>
 
+              {dailyRewards.availableReward.items?.map(item => (
+                <p key={item.id} className="text-pink-300 text-sm mb-4">
+                  Contains: {item.name} ({item.rarity})
+                </p>
+              ))}
+
               <button
                 onClick={handleClaim}
                 disabled={claiming}
@@ -108,13 +107,13 @@ export const DailyRewards: React.FC<DailyRewardsProps> = ({
         )}
 
         {/* Next Reward Timer */}
-        {!canClaim && nextRewardIn > 0 && (
+        {!canClaim && (
           <div className="bg-black/30 p-4 rounded-lg border border-gray-600/50 mb-6 text-center">
             <div className="flex items-center justify-center gap-2 mb-2">
               <Clock className="w-5 h-5 text-blue-400" />
               <span className="text-white font-semibold">Next reward in:</span>
             </div>
-            <p className="text-blue-400 font-bold text-xl">{nextRewardIn} hours</p>
+            <p className="text-blue-400 font-bold text-xl">{hoursUntilReset}h {minutesUntilReset}m</p>
           </div>
         )}
 
@@ -126,12 +125,12 @@ export const DailyRewards: React.FC<DailyRewardsProps> = ({
           </h3>
           
           <div className="grid grid-cols-7 gap-2">
-            {Array.from({ length: 14 }, (_, i) => {
+            {Array.from({ length: DAILY_REWARD_CYCLE_DAYS }, (_, i) => {
               const day = i + 1;
-              const reward = getDayReward(day);
-              const isClaimed = dailyRewards.rewardHistory.some(r => r.day === day && r.claimed);
+              const reward = getDayRewardPreview(day);
+              const isClaimed = day <= claimedDays;
               const isCurrent = dailyRewards.availableReward?.day === day;
-              const isUpcoming = day <= dailyRewards.currentStreak + 1;
+              const isUpcoming = day === claimedDays + 1;
 
               return (
                 <div
@@ -171,10 +170,27 @@ export const DailyRewards: React.FC<DailyRewardsProps> = ({
           </div>
         </div>
 
+        {/* Reset Hour */}
+        <div className="mt-4 bg-black/30 p-3 rounded-lg flex items-center justify-between gap-3">
+          <div>
+            <p className="text-white font-semibold text-sm">Daily reset time</p>
+            <p className="text-gray-400 text-xs">A new reward unlocks at this local time</p>
+          </div>
+          <select
+            value={dailyRewards.resetHour}
+            onChange={(e) => onSetResetHour(Number(e.target.value))}
+            className="bg-gray-800 text-white text-sm rounded-lg border border-gray-600 px-2 py-1"
+          >
+            {Array.from({ length: 24 }, (_, hour) => (
+              <option key={hour} value={hour}>{formatHour(hour)}</option>
+            ))}
+          </select>
+        </div>
+
         {/* Info */}
         <div className="mt-4 text-center text-xs text-gray-400">
           <p>Login daily to maintain your streak and earn better rewards!</p>
-          <p>Missing a day will reset your streak to 0.</p>
+          <p>Missing a day will reset your streak to 0. The calendar restarts after day {DAILY_REWARD_CYCLE_DAYS}.</p>
         </div>
       </div>
     </div>
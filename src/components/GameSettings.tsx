@@ -1,20 +1,31 @@
-import React from 'react';
-import { Settings, X, Eye, Moon, Sun, Globe, Bell, BellOff } from 'lucide-react';
-import { GameSettings as SettingsType } from '../types/game';
+import React, { useState } from 'react';
+import { Settings, X, Eye, Moon, Sun, Globe, Bell, BellOff, BookOpen, Upload, Trash2, Gauge } from 'lucide-react';
+import { GameSettings as SettingsType, QuestionPack, QuestionPacks } from '../types/game';
 import { getTranslation, t } from '../utils/translations';
+import { BUILT_IN_PACK_ID, QuestionPackError, getAllQuestionPacks, isQuestionPackEnabled, parseQuestionPack } from '../utils/questionPacks';
 
 interface GameSettingsProps {
   settings: SettingsType;
   onUpdateSettings: (settings: Partial<SettingsType>) => void;
+  questionPacks: QuestionPacks;
+  onImportQuestionPack: (pack: QuestionPack) => void;
+  onSetQuestionPackEnabled: (packId: string, enabled: boolean) => void;
+  onDeleteQuestionPack: (packId: string) => void;
   onClose: () => void;
 }
 
 export const GameSettings: React.FC<GameSettingsProps> = ({
   settings,
   onUpdateSettings,
+  questionPacks,
+  onImportQuestionPack,
+  onSetQuestionPackEnabled,
+  onDeleteQuestionPack,
   onClose
 }) => {
   const translation = getTranslation(settings.language);
+  const [importErrors, setImportErrors] = useState<QuestionPackError[]>([]);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
   
   const languages = [
     { code: 'en', name: 'English', flag: '🇺🇸' },
@@ -37,6 +48,27 @@ export const GameSettings: React.FC<GameSettingsProps> = ({
     onUpdateSettings({ language });
   };
 
+  const difficultyOptions: { value: SettingsType['questionDifficulty']; name: string; description: string }[] = [
+    { value: 'adaptive', name: 'Adaptive', description: 'Questions follow your rating in each category' },
+    { value: 'zone', name: 'Zone-based', description: 'Harder questions unlock in higher zones' },
+  ];
+
+  const handlePackFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so picking the same file again still fires a change
+    event.target.value = '';
+    if (!file) return;
+
+    const { pack, errors } = parseQuestionPack(await file.text());
+    setImportErrors(errors);
+    if (pack) {
+      onImportQuestionPack(pack);
+      setImportMessage(`Imported "${pack.name}" with ${pack.questions.length} questions`);
+    } else {
+      setImportMessage(`Could not import ${file.name}`);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
       <div className={`bg-gradient-to-br ${settings.darkMode ? 'from-gray-900 to-slate-900' : 'from-gray-100 to-white'} p-4 sm:p-6 rounded-lg border ${settings.darkMode ? 'border-gray-500/50' : 'border-gray-300'} max-w-2xl w-full max-h-[80vh] overflow-y-auto`}>
@@ -202,6 +234,102 @@ export const GameSettings: React.FC<GameSettingsProps> = ({
           </div>
         </div>
 
+        {/* Question Difficulty */}
+        <div className={`mt-6 ${settings.darkMode ? 'bg-black/30' : 'bg-gray-50'} p-4 rounded-lg border ${settings.darkMode ? 'border-gray-600/50' : 'border-gray-200'}`}>
+          <h3 className={`${settings.darkMode ? 'text-white' : 'text-gray-900'} font-bold text-lg mb-4 flex items-center gap-2`}>
+            <Gauge className="w-5 h-5 text-cyan-400" />
+            Question Difficulty
+          </h3>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {difficultyOptions.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => onUpdateSettings({ questionDifficulty: option.value })}
+                className={`p-3 rounded-lg border-2 transition-all text-left ${
+                  settings.questionDifficulty === option.value
+                    ? 'border-cyan-500 bg-cyan-900/30'
+                    : settings.darkMode
+                      ? 'border-gray-600 bg-gray-800/30 hover:border-gray-500'
+                      : 'border-gray-300 bg-white hover:border-gray-400'
+                }`}
+              >
+                <p className={`${settings.darkMode ? 'text-white' : 'text-gray-900'} font-semibold text-sm`}>
+                  {option.name}
+                </p>
+                <p className={`${settings.darkMode ? 'text-gray-400' : 'text-gray-600'} text-xs`}>
+                  {option.description}
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Question Packs */}
+        <div className={`mt-6 ${settings.darkMode ? 'bg-black/30' : 'bg-gray-50'} p-4 rounded-lg border ${settings.darkMode ? 'border-gray-600/50' : 'border-gray-200'}`}>
+          <h3 className={`${settings.darkMode ? 'text-white' : 'text-gray-900'} font-bold text-lg mb-4 flex items-center gap-2`}>
+            <BookOpen className="w-5 h-5 text-purple-400" />
+            Question Packs
+          </h3>
+
+          <div className="space-y-3">
+            {getAllQuestionPacks(questionPacks).map((pack) => {
+              const enabled = isQuestionPackEnabled(questionPacks, pack.id);
+              return (
+                <div key={pack.id} className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className={`${settings.darkMode ? 'text-white' : 'text-gray-900'} font-semibold truncate`}>
+                      {pack.name}
+                    </p>
+                    <p className={`${settings.darkMode ? 'text-gray-400' : 'text-gray-600'} text-sm`}>
+                      v{pack.version} · {pack.locale} · {pack.questions.length} questions{pack.author ? ` · by ${pack.author}` : ''}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {pack.id !== BUILT_IN_PACK_ID && (
+                      <button
+                        onClick={() => onDeleteQuestionPack(pack.id)}
+                        className="text-red-400 hover:text-red-300 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onSetQuestionPackEnabled(pack.id, !enabled)}
+                      className={`w-12 h-6 rounded-full transition-all ${
+                        enabled ? 'bg-purple-500' : settings.darkMode ? 'bg-gray-600' : 'bg-gray-300'
+                      }`}
+                    >
+                      <div className={`w-5 h-5 bg-white rounded-full transition-transform ${
+                        enabled ? 'translate-x-6' : 'translate-x-0.5'
+                      }`} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <label className="mt-4 flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-purple-600 text-white font-semibold hover:bg-purple-500 transition-all cursor-pointer">
+            <Upload className="w-4 h-4" />
+            Import Pack (.json)
+            <input type="file" accept=".json,application/json" onChange={handlePackFile} className="hidden" />
+          </label>
+
+          {importMessage && (
+            <p className={`mt-3 text-sm ${importErrors.length > 0 ? 'text-red-400' : 'text-green-400'}`}>
+              {importMessage}
+            </p>
+          )}
+          {importErrors.length > 0 && (
+            <ul className="mt-2 max-h-40 overflow-y-auto text-xs text-red-300 space-y-1 font-mono">
+              {importErrors.map((error, index) => (
+                <li key={index}>Line {error.line}: {error.message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
         {/* Footer */}
         <div className="mt-6 text-center text-xs text-gray-500">
           <p>{translation.settings.autoSaved}</p>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Sprout, Droplets, Coins, X, Clock, TrendingUp, Zap } from 'lucide-react';
 import { GardenOfGrowth as GardenType } from '../types/game';
+import { GARDEN_BONUS_PERCENT_PER_CM, GARDEN_GROWTH_CM_PER_HOUR } from '../utils/garden';
 
 interface GardenOfGrowthProps {
   garden: GardenType;
@@ -72,11 +73,12 @@ export const GardenOfGrowth: React.FC<GardenOfGrowthProps> = ({
                 <h4 className="text-green-300 font-semibold mb-2">How it works:</h4>
                 <div className="text-sm text-gray-300 space-y-1 text-left">
                   <p>• Plant costs {garden.seedCost.toLocaleString()} coins (one-time)</p>
-                  <p>• Every cm of growth = +5% bonus to ALL stats (ATK, DEF, HP)</p>
+                  <p>• Every cm of growth = +{GARDEN_BONUS_PERCENT_PER_CM}% bonus to ALL stats (ATK, DEF, HP)</p>
                   <p>• Grows automatically, even when offline</p>
+                  <p>• Grows {GARDEN_GROWTH_CM_PER_HOUR}cm per hour while watered</p>
                   <p>• Must keep watered to continue growing</p>
                   <p>• Water costs {garden.waterCost.toLocaleString()} coins per 24 hours</p>
-                  <p>• Maximum growth: {garden.maxGrowthCm}cm (+{garden.maxGrowthCm * 5}% bonus!)</p>
+                  <p>• Maximum growth: {garden.maxGrowthCm}cm (+{garden.maxGrowthCm * GARDEN_BONUS_PERCENT_PER_CM}% bonus!)</p>
                 </div>
               </div>
 
@@ -106,7 +108,7 @@ export const GardenOfGrowth: React.FC<GardenOfGrowthProps> = ({
               <div className="text-center mb-4">
                 <div className="text-6xl mb-2">{currentStage.emoji}</div>
                 <h3 className={`font-bold text-xl ${currentStage.color}`}>{currentStage.stage}</h3>
-                <p className="text-gray-300 text-sm">Growing since {new Date(garden.plantedAt!).toLocaleDateString()}</p>
+                <p className="text-gray-300 text-sm">Growing since {garden.plantedAt!.toLocaleDateString()}</p>
               </div>
 
               <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Sprout, BarChart3, Trophy, TrendingUp, Settings, ArrowLeft, Code, Zap, Package } from 'lucide-react';
+import { Sprout, BarChart3, Trophy, TrendingUp, Settings, ArrowLeft, Code, Zap, Package, Skull } from 'lucide-react';
 import { GardenOfGrowth } from './GardenOfGrowth';
 import { Statistics } from './Statistics';
 import { Achievements } from './Achievements';
@@ -8,7 +8,10 @@ import { GameSettings } from './GameSettings';
 import { DevTools } from './DevTools';
 import { Skills } from './Skills';
 import { YojefMarket } from './YojefMarket';
-import { GameState, GameSettings as SettingsType } from '../types/game';
+import { PokyegMarket } from './PokyegMarket';
+import { GameState, GameSettings as SettingsType, Multipliers, QuestionPack } from '../types/game';
+import { getYojefRerollCost } from '../utils/yojefMarket';
+import { getEnabledQuestions } from '../utils/questionPacks';
 
 interface HamburgerMenuPageProps {
   gameState: GameState;
@@ -16,13 +19,19 @@ interface HamburgerMenuPageProps {
   onBuyWater: (hours: number) => boolean;
   onUpgradeSkill: (skillId: string) => boolean;
   onPrestige: () => boolean;
+  onPurchasePrestigeUpgrade: (upgradeId: string) => boolean;
   onUpdateSettings: (settings: Partial<SettingsType>) => void;
+  onImportQuestionPack: (pack: QuestionPack) => void;
+  onSetQuestionPackEnabled: (packId: string, enabled: boolean) => void;
+  onDeleteQuestionPack: (packId: string) => void;
   onAddCoins: (amount: number) => void;
   onAddGems: (amount: number) => void;
   onTeleportToZone: (zone: number) => void;
   onSetExperience: (xp: number) => void;
   onRollSkill: () => boolean;
   onPurchaseRelic: (relicId: string) => boolean;
+  onRerollRelics: () => boolean;
+  onPurchaseMultiplier: (type: keyof Multipliers) => boolean;
   onBack: () => void;
 }
 
@@ -32,16 +41,22 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
   onBuyWater,
   onUpgradeSkill,
   onPrestige,
+  onPurchasePrestigeUpgrade,
   onUpdateSettings,
+  onImportQuestionPack,
+  onSetQuestionPackEnabled,
+  onDeleteQuestionPack,
   onAddCoins,
   onAddGems,
   onTeleportToZone,
   onSetExperience,
   onRollSkill,
   onPurchaseRelic,
+  onRerollRelics,
+  onPurchaseMultiplier,
   onBack
 }) => {
-  const [activeSection, setActiveSection] = useState<'garden' | 'stats' | 'achievements' | 'progression' | 'settings' | 'devtools' | 'skills' | 'yojef' | null>(null);
+  const [activeSection, setActiveSection] = useState<'garden' | 'stats' | 'achievements' | 'progression' | 'settings' | 'devtools' | 'skills' | 'yojef' | 'pokyeg' | null>(null);
 
   const menuItems = [
     {
@@ -74,6 +89,16 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
       description: 'Ancient relics and artifacts',
       status: `${gameState.yojefMarket.items.length} relics available`
     },
+    {
+      id: 'pokyeg',
+      name: 'Pokyeg Market',
+      icon: Skull,
+      color: 'text-red-400',
+      bgColor: 'from-red-900/50 to-purple-900/50',
+      borderColor: 'border-red-500/50',
+      description: 'Permanent power multipliers',
+      status: `ATK ${gameState.multipliers.atk.toFixed(1)}x | Coins ${gameState.multipliers.coins.toFixed(1)}x`
+    },
     {
       id: 'stats',
       name: 'Statistics',
@@ -153,15 +178,30 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
             relicItems={gameState.yojefMarket.items}
             gems={gameState.gems}
             equippedRelicsCount={gameState.inventory.equippedRelics.length}
+            rerollCost={getYojefRerollCost(gameState.yojefMarket)}
             onPurchaseRelic={onPurchaseRelic}
+            onReroll={onRerollRelics}
             onClose={() => setActiveSection(null)}
             nextRefresh={gameState.yojefMarket.nextRefresh}
           />
         );
+      case 'pokyeg':
+        return (
+          <PokyegMarket
+            coins={gameState.coins}
+            gems={gameState.gems}
+            multipliers={gameState.multipliers}
+            onPurchaseMultiplier={onPurchaseMultiplier}
+            onClose={() => setActiveSection(null)}
+          />
+        );
       case 'stats':
         return (
           <Statistics
             statistics={gameState.statistics}
+            difficultyRatings={gameState.difficultyRatings}
+            questionDifficulty={gameState.settings.questionDifficulty}
+            questions={getEnabledQuestions(gameState.questionPacks)}
             onClose={() => setActiveSection(null)}
           />
         );
@@ -176,8 +216,12 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
         return (
           <ProgressionPanel
             progression={gameState.progression}
+            zone={gameState.zone}
+            coins={gameState.coins}
+            researchSpent={gameState.research.totalSpent}
             onUpgradeSkill={onUpgradeSkill}
             onPrestige={onPrestige}
+            onPurchasePrestigeUpgrade={onPurchasePrestigeUpgrade}
             onClose={() => setActiveSection(null)}
           />
         );
@@ -186,6 +230,10 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
           <GameSettings
             settings={gameState.settings}
             onUpdateSettings={onUpdateSettings}
+            questionPacks={gameState.questionPacks}
+            onImportQuestionPack={onImportQuestionPack}
+            onSetQuestionPackEnabled={onSetQuestionPackEnabled}
+            onDeleteQuestionPack={onDeleteQuestionPack}
             onClose={() => setActiveSection(null)}
           />
         );
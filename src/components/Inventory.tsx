@@ -1,11 +1,15 @@
 import React, { useState } from 'react';
-import { Inventory as InventoryType, Weapon, Armor, RelicItem } from '../types/game';
-import { Sword, Shield, Gem, Star, Coins, Sparkles } from 'lucide-react';
-import { getRarityColor, getRarityBorder, getRarityGlow } from '../utils/gameUtils';
+import { EffectiveStats, Inventory as InventoryType, Weapon, Armor, RelicItem } from '../types/game';
+import { Sword, Shield, Gem, Star, Coins, Sparkles, Wrench, Save, Trash2 } from 'lucide-react';
+import { getRarityColor, getRarityBorder, getRarityGlow, getRepairCost } from '../utils/gameUtils';
+import { isItemBroken, isItemDamaged } from '../utils/equipment';
+import { MAX_EQUIPPED_RELICS, MAX_RELIC_LOADOUTS, getLoadoutRelics, getRelicSellValue } from '../utils/relics';
+import { formatStatBreakdown } from '../utils/effectiveStats';
 
 interface InventoryProps {
   inventory: InventoryType;
   gems: number;
+  coins: number;
   onEquipWeapon: (weapon: Weapon) => void;
   onEquipArmor: (armor: Armor) => void;
   onUpgradeWeapon: (weaponId: string) => void;
@@ -16,11 +20,19 @@ interface InventoryProps {
   onEquipRelic: (relicId: string) => void;
   onUnequipRelic: (relicId: string) => void;
   onSellRelic: (relicId: string) => void;
+  onRepairItem: (itemId: string, type: 'weapon' | 'armor') => boolean;
+  inCombat: boolean;
+  onSaveRelicLoadout: (name: string) => boolean;
+  onEquipRelicLoadout: (loadoutId: string) => boolean;
+  onDeleteRelicLoadout: (loadoutId: string) => void;
+  effectiveStats: EffectiveStats;
+  previewStats: (item: Weapon | Armor) => EffectiveStats;
 }
 
 export const Inventory: React.FC<InventoryProps> = ({
   inventory,
   gems,
+  coins,
   onEquipWeapon,
   onEquipArmor,
   onUpgradeWeapon,
@@ -31,8 +43,22 @@ export const Inventory: React.FC<InventoryProps> = ({
   onEquipRelic,
   onUnequipRelic,
   onSellRelic,
+  onRepairItem,
+  inCombat,
+  onSaveRelicLoadout,
+  onEquipRelicLoadout,
+  onDeleteRelicLoadout,
+  effectiveStats,
+  previewStats,
 }) => {
   const [activeTab, setActiveTab] = useState<'weapons' | 'armor' | 'relics'>('weapons');
+  const [loadoutName, setLoadoutName] = useState('');
+
+  const handleSaveLoadout = () => {
+    if (onSaveRelicLoadout(loadoutName)) {
+      setLoadoutName('');
+    }
+  };
 
   const getDurabilityColor = (durability: number, maxDurability: number) => {
     const percentage = durability / maxDurability;
@@ -48,6 +74,21 @@ export const Inventory: React.FC<InventoryProps> = ({
     return 'bg-red-500';
   };
 
+  // Total ATK/DEF change from swapping `item` into its slot
+  const renderComparison = (item: Weapon | Armor, type: 'weapon' | 'armor') => {
+    const stat = type === 'weapon' ? 'atk' : 'def';
+    const preview = previewStats(item)[stat];
+    const diff = preview.total - effectiveStats[stat].total;
+    return (
+      <p className="text-xs mb-1 cursor-help" title={formatStatBreakdown(preview)}>
+        <span className="text-gray-400">If equipped: {stat.toUpperCase()} {preview.total} </span>
+        <span className={diff > 0 ? 'text-green-400' : diff < 0 ? 'text-red-400' : 'text-gray-400'}>
+          ({diff >= 0 ? '+' : ''}{diff})
+        </span>
+      </p>
+    );
+  };
+
   const renderEquippedSection = () => (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-4 mb-4 sm:mb-6">
       <div className="bg-black/30 p-3 sm:p-4 rounded-lg border border-orange-500/50">
@@ -69,7 +110,11 @@ export const Inventory: React.FC<InventoryProps> = ({
               )}
             </div>
             <p className="text-white text-sm sm:text-base">ATK: {inventory.currentWeapon.baseAtk + (inventory.currentWeapon.level - 1) * 10}</p>
+            <p className="text-orange-300 text-xs cursor-help" title={formatStatBreakdown(effectiveStats.atk)}>Total ATK: {effectiveStats.atk.total}</p>
             <p className="text-gray-300 text-xs sm:text-sm">Level {inventory.currentWeapon.level}</p>
+            {isItemBroken(inventory.currentWeapon) && (
+              <p className="text-red-400 text-xs font-semibold">Broken - no ATK until repaired</p>
+            )}
             
             {/* Durability */}
             <div>
@@ -111,7 +156,11 @@ export const Inventory: React.FC<InventoryProps> = ({
               )}
             </div>
             <p className="text-white text-sm sm:text-base">DEF: {inventory.currentArmor.baseDef + (inventory.currentArmor.level - 1) * 5}</p>
+            <p className="text-blue-300 text-xs cursor-help" title={formatStatBreakdown(effectiveStats.def)}>Total DEF: {effectiveStats.def.total}</p>
             <p className="text-gray-300 text-xs sm:text-sm">Level {inventory.currentArmor.level}</p>
+            {isItemBroken(inventory.currentArmor) && (
+              <p className="text-red-400 text-xs font-semibold">Broken - no DEF until repaired</p>
+            )}
             
             {/* Durability */}
             <div>
@@ -156,9 +205,13 @@ export const Inventory: React.FC<InventoryProps> = ({
                   <Star className="w-4 h-4 text-cyan-400 animate-pulse" />
                 )}
               </div>
+              {isItemBroken(item) && (
+                <span className="inline-block text-xs font-bold text-red-400 bg-red-900/30 px-2 py-0.5 rounded mb-1">BROKEN</span>
+              )}
               <p className="text-white text-sm sm:text-base mb-1">
                 {type === 'weapon' ? `ATK: ${(item as Weapon).baseAtk + (item.level - 1) * 10}` : `DEF: ${(item as Armor).baseDef + (item.level - 1) * 5}`}
               </p>
+              {(type === 'weapon' ? inventory.currentWeapon?.id : inventory.currentArmor?.id) !== item.id && renderComparison(item, type)}
               <div className="flex items-center gap-1 text-xs sm:text-sm text-gray-300 mb-1">
                 <Star className="w-3 h-3 sm:w-4 sm:h-4" />
                 Level {item.level}
@@ -226,6 +279,21 @@ export const Inventory: React.FC<InventoryProps> = ({
                 Sell
               </button>
             </div>
+
+            {isItemDamaged(item) && (
+              <button
+                onClick={() => onRepairItem(item.id, type)}
+                disabled={coins < getRepairCost(item)}
+                className={`px-2 py-1 text-xs rounded font-semibold transition-all flex items-center gap-1 justify-center ${
+                  coins >= getRepairCost(item)
+                    ? 'bg-green-600 text-white hover:bg-green-500'
+                    : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                }`}
+              >
+                <Wrench className="w-3 h-3" />
+                Repair ({getRepairCost(item)} coins)
+              </button>
+            )}
           </div>
         </div>
       ))}
@@ -234,11 +302,75 @@ export const Inventory: React.FC<InventoryProps> = ({
 
   const renderRelicGrid = () => (
     <div className="space-y-4">
+      {/* Relic Loadouts */}
+      <div className="bg-black/30 p-3 sm:p-4 rounded-lg border border-indigo-500/30">
+        <h3 className="text-white font-semibold mb-3 flex items-center gap-2 text-sm sm:text-base">
+          <Save className="w-4 h-4 sm:w-5 sm:h-5 text-indigo-400" />
+          Relic Loadouts ({inventory.relicLoadouts.length}/{MAX_RELIC_LOADOUTS})
+        </h3>
+        <div className="flex gap-2 mb-3">
+          <input
+            type="text"
+            value={loadoutName}
+            onChange={(e) => setLoadoutName(e.target.value)}
+            placeholder="Loadout name"
+            maxLength={20}
+            className="flex-1 px-2 py-1 text-sm rounded bg-gray-800 text-white border border-gray-600"
+          />
+          <button
+            onClick={handleSaveLoadout}
+            disabled={!loadoutName.trim() || inventory.relicLoadouts.length >= MAX_RELIC_LOADOUTS}
+            className={`px-3 py-1 text-xs rounded font-semibold transition-all ${
+              loadoutName.trim() && inventory.relicLoadouts.length < MAX_RELIC_LOADOUTS
+                ? 'bg-indigo-600 text-white hover:bg-indigo-500'
+                : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+            }`}
+          >
+            Save Equipped
+          </button>
+        </div>
+        {inventory.relicLoadouts.length > 0 ? (
+          <div className="space-y-2">
+            {inventory.relicLoadouts.map((loadout) => (
+              <div key={loadout.id} className="flex items-center justify-between gap-2 bg-black/30 p-2 rounded">
+                <div className="min-w-0">
+                  <p className="text-white text-sm font-semibold truncate">{loadout.name}</p>
+                  <p className="text-gray-400 text-xs truncate">
+                    {getLoadoutRelics(inventory, loadout).map(r => r.name).join(', ') || 'Empty'}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onEquipRelicLoadout(loadout.id)}
+                    disabled={inCombat}
+                    className={`px-2 py-1 text-xs rounded font-semibold transition-all ${
+                      !inCombat
+                        ? 'bg-indigo-600 text-white hover:bg-indigo-500'
+                        : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                    }`}
+                  >
+                    {inCombat ? 'In Combat' : 'Equip'}
+                  </button>
+                  <button
+                    onClick={() => onDeleteRelicLoadout(loadout.id)}
+                    className="px-2 py-1 text-xs rounded font-semibold bg-red-600 text-white hover:bg-red-500 transition-all"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-400 text-xs">Save your equipped relics as a loadout to swap sets between fights.</p>
+        )}
+      </div>
+
       {/* Equipped Relics */}
       <div>
         <h3 className="text-white font-semibold mb-3 flex items-center gap-2 text-sm sm:text-base">
           <Shield className="w-4 h-4 sm:w-5 sm:h-5 text-indigo-400" />
-          Equipped Relics ({inventory.equippedRelics.length}/5)
+          Equipped Relics ({inventory.equippedRelics.length}/{MAX_EQUIPPED_RELICS})
         </h3>
         <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3 sm:gap-4">
           {inventory.equippedRelics.map((relic) => (
@@ -309,20 +441,22 @@ export const Inventory: React.FC<InventoryProps> = ({
                 <div className="flex gap-2">
                   <button
                     onClick={() => onEquipRelic(relic.id)}
-                    disabled={inventory.equippedRelics.length >= 5}
+                    disabled={inventory.equippedRelics.length >= MAX_EQUIPPED_RELICS}
                     className={`flex-1 px-2 py-1 text-xs rounded font-semibold transition-all ${
-                      inventory.equippedRelics.length < 5
+                      inventory.equippedRelics.length < MAX_EQUIPPED_RELICS
                         ? 'bg-indigo-600 text-white hover:bg-indigo-500'
                         : 'bg-gray-600 text-gray-400 cursor-not-allowed'
                     }`}
                   >
-                    {inventory.equippedRelics.length >= 5 ? 'Limit Reached' : 'Equip'}
+                    {inventory.equippedRelics.length >= MAX_EQUIPPED_RELICS ? 'Limit Reached' : 'Equip'}
                   </button>
                   <button
                     onClick={() => onSellRelic(relic.id)}
-                    className="flex-1 px-2 py-1 text-xs rounded font-semibold bg-red-600 text-white hover:bg-red-500 transition-all"
+                    className="flex-1 px-2 py-1 text-xs rounded font-semibold bg-red-600 text-white hover:bg-red-500 transition-all flex items-center gap-1 justify-center"
                   >
-                    Destroy
+                    Sell
+                    <Gem className="w-3 h-3" />
+                    {getRelicSellValue(relic)}
                   </button>
                 </div>
               </div>
@@ -435,7 +569,7 @@ export const Inventory: React.FC<InventoryProps> = ({
           <div className="text-xs text-gray-400 space-y-1">
             <p>• <strong>Enchanted Items:</strong> 5% chance from chests, double ATK/DEF</p>
             <p>• <strong>Relics:</strong> Powerful ancient items from the Yojef Market (max 5 equipped) - 1.5x stronger!</p>
-            <p>• <strong>Durability:</strong> Items lose durability in combat and become less effective</p>
+            <p>• <strong>Durability:</strong> Gear loses durability with every hit and stops adding stats when broken; repair it for coins</p>
           </div>
         </div>
       </div>
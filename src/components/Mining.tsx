@@ -1,77 +1,40 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Mining as MiningType } from '../types/game';
-import { Gem, Coins, Sparkles, X } from 'lucide-react';
+import { Gem, Coins, Sparkles, X, Pickaxe, ArrowDown } from 'lucide-react';
+import { MAX_MINE_DEPTH, MINING_GRID_SIZE, NODES_PER_DEPTH, getDepthProgress, getDepthYieldMultiplier, getMiningPower } from '../utils/mining';
 
 interface MiningProps {
   mining: MiningType;
+  coins: number;
   gems: number;
   shinyGems: number;
+  luckGemActive: boolean;
   onMineGem: (x: number, y: number) => { gems: number; shinyGems: number } | null;
+  onBuyMiningTool: (toolId: string) => boolean;
   onExchangeShinyGems: (amount: number) => boolean;
 }
 
-interface GemNode {
-  x: number;
-  y: number;
-  clicks: number;
-  maxClicks: number;
-  id: string;
-  isShiny: boolean;
-}
-
 export const Mining: React.FC<MiningProps> = ({ 
   mining, 
+  coins,
   gems, 
   shinyGems, 
+  luckGemActive,
   onMineGem, 
+  onBuyMiningTool,
   onExchangeShinyGems 
 }) => {
-  const [gemNodes, setGemNodes] = useState<GemNode[]>([]);
   const [showShop, setShowShop] = useState(false);
-  const [lastMineTime, setLastMineTime] = useState(0);
-
-  const GRID_SIZE = 5;
-  const MINE_COOLDOWN = 0;
-
-  // Generate new gem node
-  const generateGemNode = () => {
-    const isShiny = Math.random() < 0.05; // 5% chance for shiny gem
-    const newNode: GemNode = {
-      x: Math.floor(Math.random() * GRID_SIZE),
-      y: Math.floor(Math.random() * GRID_SIZE),
-      clicks: 0,
-      maxClicks: 1,
-      id: Math.random().toString(36).substr(2, 9),
-      isShiny,
-    };
-    return newNode;
-  };
 
-  // Initialize with one gem node
-  useEffect(() => {
-    if (gemNodes.length === 0) {
-      setGemNodes([generateGemNode()]);
-    }
-  }, [gemNodes.length]);
+  const miningPower = getMiningPower(mining.tools);
 
   const handleCellClick = (x: number, y: number) => {
-    const now = Date.now();
-    if (now - lastMineTime < MINE_COOLDOWN) return;
-
-    const gemNode = gemNodes.find(node => node.x === x && node.y === y);
-    if (!gemNode) return;
-
-    setLastMineTime(now);
-
-    // Fixed mining logic - shiny nodes give shiny gems, normal nodes give normal gems
-    const result = onMineGem(x, y);
-    if (result) {
-      setGemNodes(prev => {
-        const updated = prev.filter(node => node.id !== gemNode.id);
-        // Add new gem node immediately
-        updated.push(generateGemNode());
-        return updated;
-      });
+    onMineGem(x, y);
+  };
+
+  const handleBuyTool = (toolId: string) => {
+    if (!onBuyMiningTool(toolId)) {
+      alert('Not enough coins!');
     }
   };
 
@@ -84,10 +47,12 @@ export const Mining: React.FC<MiningProps> = ({
 
   const renderMiningGrid = () => {
     const cells = [];
-    for (let y = 0; y < GRID_SIZE; y++) {
-      for (let x = 0; x < GRID_SIZE; x++) {
-        const gemNode = gemNodes.find(node => node.x === x && node.y === y);
+    for (let y = 0; y < MINING_GRID_SIZE; y++) {
+      for (let x = 0; x < MINING_GRID_SIZE; x++) {
+        const gemNode = mining.nodes.find(node => node.x === x && node.y === y);
         const hasGem = !!gemNode;
+        // Luck Gem pays every node out in shiny gems
+        const isShiny = !!gemNode?.isShiny || luckGemActive;
 
         cells.push(
           <div
@@ -95,7 +60,7 @@ export const Mining: React.FC<MiningProps> = ({
             onClick={() => handleCellClick(x, y)}
             className={`aspect-square border-2 rounded-lg cursor-pointer transition-all duration-200 relative overflow-hidden ${
               hasGem
-                ? gemNode?.isShiny
+                ? isShiny
                   ? 'border-yellow-400 bg-gradient-to-br from-yellow-900 to-orange-900 hover:from-yellow-800 hover:to-orange-800 shadow-lg shadow-yellow-500/50'
                   : 'border-purple-400 bg-gradient-to-br from-purple-900 to-indigo-900 hover:from-purple-800 hover:to-indigo-800 shadow-lg shadow-purple-500/30'
                 : 'border-gray-600 bg-gray-800 hover:bg-gray-700'
@@ -103,13 +68,21 @@ export const Mining: React.FC<MiningProps> = ({
           >
             {hasGem && (
               <div className="absolute inset-0 flex items-center justify-center">
-                {gemNode?.isShiny ? (
+                {isShiny ? (
                   <Sparkles className="w-4 h-4 sm:w-6 sm:h-6 text-yellow-400 animate-pulse" />
                 ) : (
                   <Gem className="w-4 h-4 sm:w-6 sm:h-6 text-purple-400 animate-pulse" />
                 )}
               </div>
             )}
+            {gemNode && gemNode.maxClicks > 1 && (
+              <div className="absolute bottom-0 left-0 right-0 h-1 bg-black/50">
+                <div
+                  className="h-full bg-white/80 transition-all duration-200"
+                  style={{ width: `${((gemNode.maxClicks - gemNode.clicks) / gemNode.maxClicks) * 100}%` }}
+                />
+              </div>
+            )}
           </div>
         );
       }
@@ -124,7 +97,7 @@ export const Mining: React.FC<MiningProps> = ({
           <Gem className="w-6 h-6 sm:w-8 sm:h-8 text-purple-400" />
           <h2 className="text-xl sm:text-2xl font-bold text-white">Gem Mining</h2>
         </div>
-        <p className="text-gray-300 text-sm sm:text-base">Click gem nodes to mine them instantly!</p>
+        <p className="text-gray-300 text-sm sm:text-base">Click gem nodes until they crack open!</p>
         
         <div className="flex items-center justify-center gap-4 mt-3">
           <div className="flex items-center gap-2 text-purple-300">
@@ -138,15 +111,73 @@ export const Mining: React.FC<MiningProps> = ({
         </div>
       </div>
 
+      {/* Depth */}
+      <div className="bg-black/30 p-3 rounded-lg mb-4 max-w-sm mx-auto">
+        <div className="flex items-center justify-between text-sm mb-2">
+          <span className="text-white font-semibold flex items-center gap-1">
+            <ArrowDown className="w-4 h-4 text-blue-400" />
+            Depth {mining.depth}/{MAX_MINE_DEPTH}
+          </span>
+          <span className="text-blue-300">x{getDepthYieldMultiplier(mining.depth).toFixed(1)} yield</span>
+        </div>
+        {mining.depth < MAX_MINE_DEPTH && (
+          <>
+            <div className="w-full bg-gray-700 rounded-full h-2">
+              <div
+                className="bg-blue-500 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${getDepthProgress(mining) * 100}%` }}
+              />
+            </div>
+            <p className="text-gray-400 text-xs mt-1">
+              {mining.nodesMinedAtDepth}/{NODES_PER_DEPTH} nodes to go deeper
+            </p>
+          </>
+        )}
+      </div>
+
       {/* Mining Grid */}
       <div className="mb-4 sm:mb-6">
-        <h3 className="text-white font-semibold mb-3 text-center text-sm sm:text-base">Mining Area (5x5)</h3>
+        <h3 className="text-white font-semibold mb-3 text-center text-sm sm:text-base">Mining Area ({MINING_GRID_SIZE}x{MINING_GRID_SIZE})</h3>
         <div className="grid grid-cols-5 gap-1 sm:gap-2 max-w-sm mx-auto">
           {renderMiningGrid()}
         </div>
         <div className="text-center text-gray-400 text-xs sm:text-sm mt-3 space-y-1">
-          <p>Purple gems = 1 gem each | Golden gems = 1 shiny gem each (5% chance)</p>
-          <p>Click once to mine instantly!</p>
+          <p>Purple gems yield gems by hardness | Golden gems yield shiny gems</p>
+          <p>Mining power: {miningPower} per click. Deeper levels have harder, richer nodes.</p>
+        </div>
+      </div>
+
+      {/* Mining Tools */}
+      <div className="mb-4 sm:mb-6">
+        <h3 className="text-white font-semibold mb-3 text-center text-sm sm:text-base flex items-center justify-center gap-2">
+          <Pickaxe className="w-4 h-4 text-orange-400" />
+          Mining Tools
+        </h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {mining.tools.map(tool => (
+            <div key={tool.id} className="bg-black/30 p-3 rounded-lg border border-gray-600">
+              <p className="text-white font-semibold text-sm">{tool.name}</p>
+              <p className="text-gray-400 text-xs mb-2">{tool.description}</p>
+              <button
+                onClick={() => handleBuyTool(tool.id)}
+                disabled={tool.owned || coins < tool.cost}
+                className={`w-full py-1 rounded text-xs font-semibold transition-all flex items-center justify-center gap-1 ${
+                  tool.owned
+                    ? 'bg-green-700 text-green-200 cursor-default'
+                    : coins >= tool.cost
+                      ? 'bg-orange-600 text-white hover:bg-orange-500'
+                      : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                }`}
+              >
+                {tool.owned ? 'Owned' : (
+                  <>
+                    <Coins className="w-3 h-3" />
+                    {tool.cost.toLocaleString()}
+                  </>
+                )}
+              </button>
+            </div>
+          ))}
         </div>
       </div>
 
@@ -0,0 +1,81 @@
+import React from 'react';
+import { ModeRunSummary as ModeRunSummaryType } from '../types/game';
+import { Shield, Timer, Target, Coins, Gem, Trophy, X } from 'lucide-react';
+
+interface ModeRunSummaryProps {
+  summary: ModeRunSummaryType;
+  onClose: () => void;
+}
+
+export const ModeRunSummary: React.FC<ModeRunSummaryProps> = ({ summary, onClose }) => {
+  const modeInfo = {
+    survival: { name: 'Survival', icon: Shield, color: 'text-green-400', border: 'border-green-500/50', scoreLabel: 'Enemies Survived' },
+    timeAttack: { name: 'Time Attack', icon: Timer, color: 'text-orange-400', border: 'border-orange-500/50', scoreLabel: 'Score' },
+    boss: { name: 'Boss Rush', icon: Target, color: 'text-pink-400', border: 'border-pink-500/50', scoreLabel: 'Bosses Defeated' },
+  }[summary.mode];
+
+  const Icon = modeInfo.icon;
+  const totalAnswers = summary.correctAnswers + summary.wrongAnswers;
+  const accuracy = totalAnswers > 0 ? Math.round((summary.correctAnswers / totalAnswers) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className={`bg-gradient-to-br from-gray-900 to-slate-900 p-6 rounded-lg border ${modeInfo.border} max-w-md w-full`}>
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center gap-3">
+            <Icon className={`w-8 h-8 ${modeInfo.color}`} />
+            <div>
+              <h2 className="text-white font-bold text-xl">{modeInfo.name} Complete</h2>
+              <p className="text-gray-300 text-sm">{summary.outcome}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="bg-black/30 p-4 rounded-lg mb-4 text-center">
+          <p className="text-gray-400 text-sm">{modeInfo.scoreLabel}</p>
+          <p className={`text-4xl font-bold ${modeInfo.color}`}>{summary.score.toLocaleString()}</p>
+          {summary.isNewBest && (
+            <p className="text-yellow-400 font-semibold text-sm mt-1 flex items-center justify-center gap-1">
+              <Trophy className="w-4 h-4" />
+              New Best!
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 mb-6 text-sm">
+          <div className="bg-black/30 p-3 rounded-lg">
+            <p className="text-gray-400">Enemies Defeated</p>
+            <p className="text-white font-bold">{summary.enemiesDefeated}</p>
+          </div>
+          <div className="bg-black/30 p-3 rounded-lg">
+            <p className="text-gray-400">Accuracy</p>
+            <p className="text-white font-bold">{accuracy}% ({summary.correctAnswers}/{totalAnswers})</p>
+          </div>
+          <div className="bg-black/30 p-3 rounded-lg">
+            <p className="text-gray-400 flex items-center gap-1"><Coins className="w-3 h-3 text-yellow-400" />Coins</p>
+            <p className="text-yellow-400 font-bold">+{summary.coinsEarned.toLocaleString()}</p>
+          </div>
+          <div className="bg-black/30 p-3 rounded-lg">
+            <p className="text-gray-400 flex items-center gap-1"><Gem className="w-3 h-3 text-purple-400" />Gems</p>
+            <p className="text-purple-400 font-bold">+{summary.gemsEarned.toLocaleString()}</p>
+          </div>
+        </div>
+
+        <p className="text-center text-xs text-gray-400 mb-4">Started at Zone {summary.startZone}</p>
+
+        <button
+          onClick={onClose}
+          className="w-full py-3 bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold rounded-lg hover:from-purple-500 hover:to-indigo-500 transition-all"
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+};
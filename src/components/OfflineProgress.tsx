@@ -24,6 +24,13 @@ export const OfflineProgress: React.FC<OfflineProgressProps> = ({
   };
 
   const hasRewards = offlineProgress.offlineCoins > 0 || offlineProgress.offlineGems > 0;
+  const { breakdown } = offlineProgress;
+
+  const breakdownRows = [
+    { label: 'Zone progress', coins: breakdown.zoneCoins, gems: breakdown.zoneGems },
+    { label: 'Research bonus', coins: breakdown.researchCoins, gems: 0 },
+    { label: 'Garden bonus', coins: breakdown.gardenCoins, gems: breakdown.gardenGems },
+  ].filter(row => row.coins > 0 || row.gems > 0);
 
   if (!hasRewards) return null;
 
@@ -76,6 +83,22 @@ export const OfflineProgress: React.FC<OfflineProgressProps> = ({
               </div>
             )}
           </div>
+
+          {breakdownRows.length > 0 && (
+            <div className="mt-4 pt-3 border-t border-white/10 space-y-1">
+              <p className="text-gray-300 text-xs font-semibold mb-1">Where it came from</p>
+              {breakdownRows.map(row => (
+                <div key={row.label} className="flex items-center justify-between text-xs">
+                  <span className="text-gray-300">{row.label}</span>
+                  <span>
+                    {row.coins > 0 && <span className="text-yellow-400">+{row.coins.toLocaleString()} coins</span>}
+                    {row.coins > 0 && row.gems > 0 && <span className="text-gray-500"> · </span>}
+                    {row.gems > 0 && <span className="text-purple-400">+{row.gems.toLocaleString()} gems</span>}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         <button
@@ -89,7 +112,7 @@ export const OfflineProgress: React.FC<OfflineProgressProps> = ({
         </button>
 
         <div className="mt-4 text-center text-xs text-gray-400">
-          <p>Offline progress is calculated based on your research levels</p>
+          <p>Offline progress is based on your zone, research level and garden</p>
           <p>Maximum offline time: {offlineProgress.maxOfflineHours} hours</p>
         </div>
       </div>
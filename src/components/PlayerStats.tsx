@@ -1,6 +1,7 @@
 import React from 'react';
-import { PlayerTag } from '../types/game';
+import { EffectiveStat, EffectiveStats, PlayerTag } from '../types/game';
 import { Heart, Sword, Shield, MapPin, Coins, Gem, Sparkles, TrendingUp } from 'lucide-react';
+import { formatStatBreakdown } from '../utils/effectiveStats';
 
 interface PlayerStatsProps {
   playerStats: {
@@ -9,6 +10,7 @@ interface PlayerStatsProps {
     atk: number;
     def: number;
   };
+  effectiveStats: EffectiveStats;
   zone: number;
   coins: number;
   gems: number;
@@ -24,6 +26,7 @@ interface PlayerStatsProps {
 
 export const PlayerStats: React.FC<PlayerStatsProps> = ({ 
   playerStats, 
+  effectiveStats,
   zone, 
   coins, 
   gems, 
@@ -33,6 +36,17 @@ export const PlayerStats: React.FC<PlayerStatsProps> = ({
 }) => {
   const unlockedTags = playerTags.filter(tag => tag.unlocked);
 
+  const renderBreakdown = (stat: EffectiveStat) => (
+    <div className="mt-2 space-y-0.5">
+      {stat.sources.map((s) => (
+        <div key={s.source} className="flex justify-between text-xs text-gray-400">
+          <span>{s.source}{s.multiplier !== undefined && ` x${s.multiplier.toFixed(2)}`}</span>
+          <span className={s.points < 0 ? 'text-red-400' : 'text-gray-300'}>{s.points >= 0 ? '+' : ''}{s.points}</span>
+        </div>
+      ))}
+    </div>
+  );
+
   return (
     <div className="bg-gradient-to-br from-slate-800/80 via-slate-900/80 to-black/80 p-6 rounded-xl shadow-2xl border border-slate-600/50 backdrop-blur-sm">
       <h2 className="text-2xl sm:text-3xl font-bold text-white mb-6 text-center">Hero Status</h2>
@@ -89,11 +103,11 @@ export const PlayerStats: React.FC<PlayerStatsProps> = ({
           <div className="w-full bg-gray-700 rounded-full h-4">
             <div 
               className="bg-gradient-to-r from-red-500 to-red-400 h-4 rounded-full transition-all duration-300"
-              style={{ width: `${(playerStats.hp / playerStats.maxHp) * 100}%` }}
+              style={{ width: `${(playerStats.hp / effectiveStats.maxHp.total) * 100}%` }}
             />
           </div>
-          <p className="text-sm text-gray-300 mt-2 text-center font-semibold">
-            {playerStats.hp}/{playerStats.maxHp}
+          <p className="text-sm text-gray-300 mt-2 text-center font-semibold cursor-help" title={formatStatBreakdown(effectiveStats.maxHp)}>
+            {playerStats.hp}/{effectiveStats.maxHp.total}
           </p>
         </div>
 
@@ -104,7 +118,8 @@ export const PlayerStats: React.FC<PlayerStatsProps> = ({
               <Sword className="w-4 h-4 text-orange-400" />
               <span className="text-white font-semibold text-sm">Attack</span>
             </div>
-            <p className="text-2xl font-bold text-orange-400">{playerStats.atk}</p>
+            <p className="text-2xl font-bold text-orange-400 cursor-help" title={formatStatBreakdown(effectiveStats.atk)}>{effectiveStats.atk.total}</p>
+            {renderBreakdown(effectiveStats.atk)}
           </div>
           
           <div className="bg-black/30 p-4 rounded-xl border border-blue-500/30">
@@ -112,7 +127,8 @@ export const PlayerStats: React.FC<PlayerStatsProps> = ({
               <Shield className="w-4 h-4 text-blue-400" />
               <span className="text-white font-semibold text-sm">Defense</span>
             </div>
-            <p className="text-2xl font-bold text-blue-400">{playerStats.def}</p>
+            <p className="text-2xl font-bold text-blue-400 cursor-help" title={formatStatBreakdown(effectiveStats.def)}>{effectiveStats.def.total}</p>
+            {renderBreakdown(effectiveStats.def)}
           </div>
         </div>
 
@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
 import { Multipliers } from '../types/game';
 import { Skull, Coins, X, TrendingUp, AlertTriangle, Gem, Sword, Shield, Heart } from 'lucide-react';
+import { MULTIPLIER_STEP, getMultiplierCost } from '../utils/multipliers';
 
 interface PokyegMarketProps {
   coins: number;
   gems: number;
   multipliers: Multipliers;
-  onPurchaseMultiplier: (type: keyof Multipliers, cost: { coins: number; gems: number }) => boolean;
+  onPurchaseMultiplier: (type: keyof Multipliers) => boolean;
   onClose: () => void;
 }
 
@@ -27,7 +28,7 @@ export const PokyegMarket: React.FC<PokyegMarketProps> = ({
       icon: Coins,
       color: 'yellow',
       currentLevel: multipliers.coins,
-      cost: { coins: Math.floor(1000 * Math.pow(1.5, multipliers.coins - 1)), gems: Math.floor(50 * Math.pow(1.3, multipliers.coins - 1)) }
+      cost: getMultiplierCost('coins', multipliers.coins)
     },
     {
       type: 'gems' as keyof Multipliers,
@@ -36,7 +37,7 @@ export const PokyegMarket: React.FC<PokyegMarketProps> = ({
       icon: Gem,
       color: 'purple',
       currentLevel: multipliers.gems,
-      cost: { coins: Math.floor(2000 * Math.pow(1.6, multipliers.gems - 1)), gems: Math.floor(100 * Math.pow(1.4, multipliers.gems - 1)) }
+      cost: getMultiplierCost('gems', multipliers.gems)
     },
     {
       type: 'atk' as keyof Multipliers,
@@ -45,7 +46,7 @@ export const PokyegMarket: React.FC<PokyegMarketProps> = ({
       icon: Sword,
       color: 'red',
       currentLevel: multipliers.atk,
-      cost: { coins: Math.floor(5000 * Math.pow(2, multipliers.atk - 1)), gems: Math.floor(250 * Math.pow(1.5, multipliers.atk - 1)) }
+      cost: getMultiplierCost('atk', multipliers.atk)
     },
     {
       type: 'def' as keyof Multipliers,
@@ -54,7 +55,7 @@ export const PokyegMarket: React.FC<PokyegMarketProps> = ({
       icon: Shield,
       color: 'blue',
       currentLevel: multipliers.def,
-      cost: { coins: Math.floor(5000 * Math.pow(2, multipliers.def - 1)), gems: Math.floor(250 * Math.pow(1.5, multipliers.def - 1)) }
+      cost: getMultiplierCost('def', multipliers.def)
     },
     {
       type: 'hp' as keyof Multipliers,
@@ -63,7 +64,7 @@ export const PokyegMarket: React.FC<PokyegMarketProps> = ({
       icon: Heart,
       color: 'green',
       currentLevel: multipliers.hp,
-      cost: { coins: Math.floor(7500 * Math.pow(2.2, multipliers.hp - 1)), gems: Math.floor(375 * Math.pow(1.6, multipliers.hp - 1)) }
+      cost: getMultiplierCost('hp', multipliers.hp)
     }
   ];
 
@@ -103,8 +104,8 @@ export const PokyegMarket: React.FC<PokyegMarketProps> = ({
     return colors[color as keyof typeof colors];
   };
 
-  const handlePurchase = (type: keyof Multipliers, cost: { coins: number; gems: number }) => {
-    const success = onPurchaseMultiplier(type, cost);
+  const handlePurchase = (type: keyof Multipliers) => {
+    const success = onPurchaseMultiplier(type);
     if (success) {
       setSelectedMultiplier(null);
     }
@@ -185,7 +186,7 @@ export const PokyegMarket: React.FC<PokyegMarketProps> = ({
                       Current Level: {offer.currentLevel.toFixed(1)}x
                     </p>
                     <p className={`text-sm ${colorClasses.text}`}>
-                      Next Level: {(offer.currentLevel + 0.1).toFixed(1)}x
+                      Next Level: {(offer.currentLevel + MULTIPLIER_STEP).toFixed(1)}x
                     </p>
                   </div>
                   
@@ -203,7 +204,7 @@ export const PokyegMarket: React.FC<PokyegMarketProps> = ({
                 </div>
 
                 <button
-                  onClick={() => handlePurchase(offer.type, offer.cost)}
+                  onClick={() => handlePurchase(offer.type)}
                   disabled={!canAfford}
                   className={`w-full py-2 rounded-lg font-semibold transition-all text-sm ${
                     canAfford
@@ -1,90 +1,61 @@
 import React, { useState } from 'react';
-import { ProgressionSystem } from '../types/game';
+import { ProgressionSkill, ProgressionSystem } from '../types/game';
 import { Star, TrendingUp, Award, Crown, X, Brain, Sword, Shield, Heart, Zap } from 'lucide-react';
+import { PRESTIGE_ZONE_REQUIREMENT, calculatePrestigePoints, canPrestige as canPrestigeAtZone, getPrestigeUpgradeCost, getPrestigeUpgradeLevel, prestigeUpgradeDefinitions } from '../utils/prestige';
+import { getSkillLevel, skillDefinitions } from '../utils/progression';
+import { MAX_MASTERY_LEVEL, formatMasteryPerkEffect, getMasteryLevel, getMasteryPerk, getMasteryXpForLevel, masteryMilestones } from '../utils/mastery';
 
 interface ProgressionPanelProps {
   progression: ProgressionSystem;
+  zone: number;
+  coins: number;
+  researchSpent: number;
   onUpgradeSkill: (skillId: string) => boolean;
   onPrestige: () => boolean;
+  onPurchasePrestigeUpgrade: (upgradeId: string) => boolean;
   onClose: () => void;
 }
 
 export const ProgressionPanel: React.FC<ProgressionPanelProps> = ({
   progression,
+  zone,
+  coins,
+  researchSpent,
   onUpgradeSkill,
   onPrestige,
+  onPurchasePrestigeUpgrade,
   onClose
 }) => {
+  const [confirmPrestige, setConfirmPrestige] = useState(false);
   const [activeTab, setActiveTab] = useState<'skills' | 'prestige' | 'mastery'>('skills');
 
-  const skills = [
-    {
-      id: 'combat_mastery',
-      name: 'Combat Mastery',
-      description: '+5% ATK and DEF per level',
-      icon: Sword,
-      color: 'text-red-400',
-      maxLevel: 10,
-      cost: 1
-    },
-    {
-      id: 'knowledge_boost',
-      name: 'Knowledge Boost',
-      description: '+10% experience gain per level',
-      icon: Brain,
-      color: 'text-blue-400',
-      maxLevel: 5,
-      cost: 2
-    },
-    {
-      id: 'treasure_hunter',
-      name: 'Treasure Hunter',
-      description: '+15% coin and gem rewards per level',
-      icon: Star,
-      color: 'text-yellow-400',
-      maxLevel: 8,
-      cost: 2
-    },
-    {
-      id: 'durability_expert',
-      name: 'Durability Expert',
-      description: 'Items lose durability 20% slower per level',
-      icon: Shield,
-      color: 'text-green-400',
-      maxLevel: 5,
-      cost: 3
-    },
-    {
-      id: 'streak_master',
-      name: 'Streak Master',
-      description: 'Knowledge streaks build 25% faster per level',
-      icon: Zap,
-      color: 'text-purple-400',
-      maxLevel: 4,
-      cost: 3
-    },
-    {
-      id: 'health_regeneration',
-      name: 'Health Regeneration',
-      description: 'Restore 10% HP after each victory per level',
-      icon: Heart,
-      color: 'text-pink-400',
-      maxLevel: 3,
-      cost: 4
-    }
-  ];
-
-  const getSkillLevel = (skillId: string): number => {
-    return progression.unlockedSkills.filter(s => s === skillId).length;
+  const skillVisuals: { [skillId: string]: { icon: typeof Sword; color: string } } = {
+    combat_mastery: { icon: Sword, color: 'text-red-400' },
+    knowledge_boost: { icon: Brain, color: 'text-blue-400' },
+    treasure_hunter: { icon: Star, color: 'text-yellow-400' },
+    durability_expert: { icon: Shield, color: 'text-green-400' },
+    streak_master: { icon: Zap, color: 'text-purple-400' },
+    health_regeneration: { icon: Heart, color: 'text-pink-400' }
   };
 
-  const canUpgradeSkill = (skill: any): boolean => {
-    const currentLevel = getSkillLevel(skill.id);
+  const skills = skillDefinitions.map(def => ({ ...def, ...skillVisuals[def.id] }));
+
+  const canUpgradeSkill = (skill: ProgressionSkill): boolean => {
+    const currentLevel = getSkillLevel(progression, skill.id);
     return currentLevel < skill.maxLevel && progression.skillPoints >= skill.cost;
   };
 
-  const canPrestige = progression.level >= 50;
-  const prestigeReward = Math.floor(progression.level / 10);
+  const canPrestige = canPrestigeAtZone(zone);
+  const prestigeReward = calculatePrestigePoints(zone, coins, researchSpent);
+
+  const handlePrestige = () => {
+    if (!confirmPrestige) {
+      setConfirmPrestige(true);
+      return;
+    }
+    onPrestige();
+    setConfirmPrestige(false);
+  };
 
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
@@ -148,7 +119,7 @@ export const ProgressionPanel: React.FC<ProgressionPanelProps> = ({
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             {skills.map((skill) => {
               const Icon = skill.icon;
-              const currentLevel = getSkillLevel(skill.id);
+              const currentLevel = getSkillLevel(progression, skill.id);
               const canUpgrade = canUpgradeSkill(skill);
 
               return (
@@ -203,7 +174,7 @@ export const ProgressionPanel: React.FC<ProgressionPanelProps> = ({
               <Crown className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
               <h3 className="text-yellow-400 font-bold text-xl mb-2">Prestige System</h3>
               <p className="text-white mb-4">
-                Reset your level to gain permanent bonuses and prestige points
+                Reset your run to earn prestige points and spend them on permanent bonuses
               </p>
               
               <div className="space-y-2 mb-4">
@@ -213,7 +184,7 @@ export const ProgressionPanel: React.FC<ProgressionPanelProps> = ({
               </div>
 
               <button
-                onClick={onPrestige}
+                onClick={handlePrestige}
                 disabled={!canPrestige}
                 className={`px-6 py-3 rounded-lg font-bold transition-all ${
                   canPrestige
@@ -221,17 +192,73 @@ export const ProgressionPanel: React.FC<ProgressionPanelProps> = ({
                     : 'bg-gray-600 text-gray-400 cursor-not-allowed'
                 }`}
               >
-                {canPrestige ? 'Prestige Now!' : `Reach Level 50 to Prestige (Level ${progression.level})`}
+                {!canPrestige
+                  ? `Reach Zone ${PRESTIGE_ZONE_REQUIREMENT} to Prestige (Zone ${zone})`
+                  : confirmPrestige
+                    ? 'Click again to confirm'
+                    : 'Prestige Now!'}
               </button>
             </div>
 
-            <div className="bg-black/30 p-4 rounded-lg">
-              <h4 className="text-white font-bold mb-3">Prestige Benefits</h4>
-              <div className="text-sm text-gray-300 space-y-1">
-                <p>• +5% experience gain per prestige level</p>
-                <p>• +10% coin and gem rewards per prestige level</p>
-                <p>• Unlock exclusive prestige skills</p>
-                <p>• Keep all achievements and collection progress</p>
+            {/* Prestige Shop */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6 text-left">
+              {prestigeUpgradeDefinitions.map((upgrade) => {
+                const currentLevel = getPrestigeUpgradeLevel(progression, upgrade.id);
+                const cost = getPrestigeUpgradeCost(upgrade, currentLevel);
+                const isMaxed = currentLevel >= upgrade.maxLevel;
+                const canBuy = !isMaxed && progression.prestigePoints >= cost;
+
+                return (
+                  <div
+                    key={upgrade.id}
+                    className="bg-black/30 p-4 rounded-lg border border-yellow-500/30"
+                  >
+                    <div className="flex items-center gap-3 mb-2">
+                      <span className="text-2xl">{upgrade.icon}</span>
+                      <div>
+                        <h4 className="text-white font-bold">{upgrade.name}</h4>
+                        <p className="text-gray-300 text-sm">{upgrade.description}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between mb-3 text-sm">
+                      <span className="text-gray-300">Level {currentLevel}/{upgrade.maxLevel}</span>
+                      <span className="text-yellow-400">{isMaxed ? '—' : `Cost: ${cost} PP`}</span>
+                    </div>
+                    <button
+                      onClick={() => onPurchasePrestigeUpgrade(upgrade.id)}
+                      disabled={!canBuy}
+                      className={`w-full py-2 rounded-lg font-semibold transition-all text-sm ${
+                        canBuy
+                          ? 'bg-yellow-600 text-white hover:bg-yellow-500'
+                          : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                      }`}
+                    >
+                      {isMaxed ? 'Maxed' : 'Purchase'}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-left">
+              <div className="bg-black/30 p-4 rounded-lg">
+                <h4 className="text-white font-bold mb-3">Resets on Prestige</h4>
+                <div className="text-sm text-gray-300 space-y-1">
+                  <p>• Coins, gems and shiny gems</p>
+                  <p>• Zone, hero stats and research</p>
+                  <p>• Weapons, armor and relics</p>
+                  <p>• Game mode progress and current streak</p>
+                </div>
+              </div>
+              <div className="bg-black/30 p-4 rounded-lg">
+                <h4 className="text-white font-bold mb-3">Carries Over</h4>
+                <div className="text-sm text-gray-300 space-y-1">
+                  <p>• Achievements, player tags and collection book</p>
+                  <p>• Character level, skills and mastery</p>
+                  <p>• +5% experience gain per prestige level</p>
+                  <p>• Garden, statistics and settings</p>
+                  <p>• +10% coin and gem rewards per prestige level</p>
+                </div>
               </div>
             </div>
           </div>
@@ -239,28 +266,61 @@ export const ProgressionPanel: React.FC<ProgressionPanelProps> = ({
 
         {activeTab === 'mastery' && (
           <div>
-            <h3 className="text-white font-bold text-lg mb-4">Category Mastery</h3>
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-              {Object.entries(progression.masteryLevels).map(([category, level]) => (
-                <div
-                  key={category}
-                  className="bg-black/30 p-4 rounded-lg border border-gray-600/50"
-                >
-                  <div className="flex items-center justify-between mb-2">
-                    <h4 className="text-white font-semibold">{category}</h4>
-                    <span className="text-yellow-400 font-bold">Level {level}</span>
-                  </div>
-                  <div className="w-full bg-gray-700 rounded-full h-2">
-                    <div 
-                      className="bg-gradient-to-r from-yellow-500 to-orange-500 h-2 rounded-full transition-all"
-                      style={{ width: `${Math.min((level / 10) * 100, 100)}%` }}
-                    />
-                  </div>
-                  <p className="text-gray-300 text-sm mt-2">
-                    +{level * 5}% accuracy bonus in {category}
+            <h3 className="text-white font-bold text-lg mb-2">Category Mastery</h3>
+            <p className="text-gray-300 text-sm mb-4">
+              Correct answers earn mastery in their category. Each level strengthens that category's perk.
+            </p>
+            {Object.keys(progression.masteryExperience).length === 0 ? (
+              <p className="text-gray-400 text-center py-4">
+                Answer questions correctly to start building mastery.
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {Object.entries(progression.masteryExperience).map(([category, experience]) => {
+                  const level = getMasteryLevel(progression, category);
+                  const perk = getMasteryPerk(category);
+                  const isMaxed = level >= MAX_MASTERY_LEVEL;
+                  const levelStart = getMasteryXpForLevel(level);
+                  const levelEnd = getMasteryXpForLevel(level + 1);
+                  const progress = isMaxed ? 100 : ((experience - levelStart) / (levelEnd - levelStart)) * 100;
+
+                  return (
+                    <div
+                      key={category}
+                      className="bg-black/30 p-4 rounded-lg border border-gray-600/50"
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="text-white font-semibold">{category}</h4>
+                        <span className="text-yellow-400 font-bold">Level {level}/{MAX_MASTERY_LEVEL}</span>
+                      </div>
+                      <div className="w-full bg-gray-700 rounded-full h-2">
+                        <div 
+                          className="bg-gradient-to-r from-yellow-500 to-orange-500 h-2 rounded-full transition-all"
+                          style={{ width: `${Math.min(progress, 100)}%` }}
+                        />
+                      </div>
+                      <p className="text-gray-400 text-xs mt-1">
+                        {isMaxed ? 'Mastered' : `${experience - levelStart}/${levelEnd - levelStart} XP to level ${level + 1}`}
+                      </p>
+                      <p className="text-gray-300 text-sm mt-2">
+                        {perk.name}: {level > 0 ? formatMasteryPerkEffect(perk, level) : 'locked'}
+                        <span className="text-gray-500"> ({formatMasteryPerkEffect(perk, 1)} per level)</span>
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="mt-4 bg-black/30 p-4 rounded-lg">
+              <h4 className="text-white font-semibold mb-2">Milestones</h4>
+              <div className="text-gray-300 text-sm space-y-1">
+                {masteryMilestones.map(milestone => (
+                  <p key={milestone.level}>
+                    • Level {milestone.level} in a category:{milestone.coins > 0 ? ` ${milestone.coins} coins` : ''}{milestone.coins > 0 && milestone.gems > 0 ? ' and' : ''}{milestone.gems > 0 ? ` ${milestone.gems} gems` : ''}
                   </p>
-                </div>
-              ))}
+                ))}
+              </div>
             </div>
           </div>
         )}
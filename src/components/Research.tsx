@@ -1,60 +1,127 @@
 import React, { useState } from 'react';
-import { Research as ResearchType } from '../types/game';
-import { Brain, TrendingUp, Sword, Shield, Heart, Coins, X } from 'lucide-react';
-import { calculateResearchBonus, calculateResearchCost } from '../utils/gameUtils';
+import { Research as ResearchType, ResearchBranch, ResearchNode } from '../types/game';
+import { Brain, TrendingUp, Sword, Shield, Coins, Lock, ChevronDown } from 'lucide-react';
+import {
+  getResearchNode,
+  getResearchNodeCost,
+  getResearchNodeLevel,
+  isResearchNodeUnlocked,
+  researchBranches,
+  researchNodeDefinitions,
+} from '../utils/research';
 
 interface ResearchProps {
   research: ResearchType;
   coins: number;
-  onUpgradeResearch: (type: 'atk' | 'def' | 'hp') => void;
+  onUpgradeResearch: (nodeId: string) => boolean;
   isPremium: boolean;
 }
 
-export const Research: React.FC<ResearchProps> = ({ 
-  research, 
-  coins, 
-  onUpgradeResearch, 
-  isPremium 
+const branchStyles: Record<ResearchBranch, { icon: typeof Sword; color: string; border: string; bg: string }> = {
+  offense: { icon: Sword, color: 'text-orange-400', border: 'border-orange-500/50', bg: 'bg-orange-900/30' },
+  defense: { icon: Shield, color: 'text-blue-400', border: 'border-blue-500/50', bg: 'bg-blue-900/30' },
+  fortune: { icon: Coins, color: 'text-yellow-400', border: 'border-yellow-500/50', bg: 'bg-yellow-900/30' },
+};
+
+export const Research: React.FC<ResearchProps> = ({
+  research,
+  coins,
+  onUpgradeResearch,
 }) => {
-  const [showUpgradeModal, setShowUpgradeModal] = useState(false);
-
-  const cost = calculateResearchCost(research.level);
-  const currentBonus = calculateResearchBonus(research.level);
-  const nextBonus = calculateResearchBonus(research.level + 1);
-
-  const upgradeOptions = [
-    {
-      key: 'atk' as const,
-      name: 'Attack Research',
-      icon: Sword,
-      color: 'text-orange-400',
-      bgColor: 'bg-orange-900/30',
-      borderColor: 'border-orange-500/50',
-      description: 'Increase your attack power by 10%'
-    },
-    {
-      key: 'def' as const,
-      name: 'Defense Research',
-      icon: Shield,
-      color: 'text-blue-400',
-      bgColor: 'bg-blue-900/30',
-      borderColor: 'border-blue-500/50',
-      description: 'Increase your defense power by 10%'
-    },
-    {
-      key: 'hp' as const,
-      name: 'Health Research',
-      icon: Heart,
-      color: 'text-red-400',
-      bgColor: 'bg-red-900/30',
-      borderColor: 'border-red-500/50',
-      description: 'Increase your maximum health by 10%'
-    }
-  ];
-
-  const handleUpgrade = (type: 'atk' | 'def' | 'hp') => {
-    onUpgradeResearch(type);
-    setShowUpgradeModal(false);
+  const [activeBranch, setActiveBranch] = useState<ResearchBranch>('offense');
+  const [selectedNodeId, setSelectedNodeId] = useState<string>(researchNodeDefinitions[0].id);
+
+  const branchNodes = researchNodeDefinitions.filter(n => n.branch === activeBranch);
+  const selectedNode = getResearchNode(selectedNodeId) || branchNodes[0];
+  const style = branchStyles[activeBranch];
+
+  const selectBranch = (branch: ResearchBranch) => {
+    setActiveBranch(branch);
+    setSelectedNodeId(researchNodeDefinitions.find(n => n.branch === branch)!.id);
+  };
+
+  const renderNode = (node: ResearchNode) => {
+    const level = getResearchNodeLevel(research, node.id);
+    const unlocked = isResearchNodeUnlocked(research, node);
+    const isSelected = node.id === selectedNode.id;
+
+    return (
+      <button
+        key={node.id}
+        onClick={() => setSelectedNodeId(node.id)}
+        className={`w-full p-3 rounded-lg border-2 text-left transition-all duration-200 ${
+          isSelected ? `${style.border} ${style.bg} scale-105` : 'border-gray-600/50 bg-black/30 hover:bg-black/40'
+        } ${unlocked ? '' : 'opacity-60'}`}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="text-xl">{node.icon}</span>
+            <span className={`font-semibold text-sm truncate ${unlocked ? 'text-white' : 'text-gray-400'}`}>{node.name}</span>
+            {!unlocked && <Lock className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+          </div>
+          <span className={`text-xs font-semibold ${level >= node.maxLevel ? 'text-green-400' : 'text-gray-300'}`}>
+            {level}/{node.maxLevel}
+          </span>
+        </div>
+      </button>
+    );
+  };
+
+  const renderDetails = (node: ResearchNode) => {
+    const level = getResearchNodeLevel(research, node.id);
+    const unlocked = isResearchNodeUnlocked(research, node);
+    const isMaxed = level >= node.maxLevel;
+    const cost = getResearchNodeCost(node, level);
+    const canBuy = unlocked && !isMaxed && coins >= cost;
+
+    return (
+      <div className="bg-black/40 p-4 rounded-lg">
+        <div className="flex items-center gap-3 mb-2">
+          <span className="text-3xl">{node.icon}</span>
+          <div>
+            <h3 className={`font-bold text-lg ${style.color}`}>{node.name}</h3>
+            <p className="text-gray-300 text-xs">Level {level}/{node.maxLevel}</p>
+          </div>
+        </div>
+        <p className="text-gray-300 text-sm mb-3">{node.description}</p>
+
+        {node.requires.length > 0 && (
+          <div className="mb-3 space-y-1">
+            <p className="text-white text-xs font-semibold">Requires</p>
+            {node.requires.map(req => {
+              const met = getResearchNodeLevel(research, req.nodeId) >= req.level;
+              return (
+                <p key={req.nodeId} className={`text-xs ${met ? 'text-green-400' : 'text-red-400'}`}>
+                  {met ? '✓' : '✗'} {getResearchNode(req.nodeId)?.name} level {req.level}
+                </p>
+              );
+            })}
+          </div>
+        )}
+
+        <button
+          onClick={() => onUpgradeResearch(node.id)}
+          disabled={!canBuy}
+          className={`w-full py-3 rounded-lg font-bold transition-all duration-200 text-sm flex items-center justify-center gap-2 ${
+            canBuy
+              ? 'bg-gradient-to-r from-purple-600 to-purple-500 text-white hover:scale-105 shadow-lg'
+              : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+          }`}
+        >
+          {isMaxed ? 'Maxed' : !unlocked ? (
+            <>
+              <Lock className="w-4 h-4" />
+              Locked
+            </>
+          ) : (
+            <>
+              <Coins className="w-4 h-4" />
+              {coins >= cost ? `Research (${cost})` : `Need ${cost} coins`}
+            </>
+          )}
+        </button>
+      </div>
+    );
   };
 
   return (
@@ -65,128 +132,55 @@ export const Research: React.FC<ResearchProps> = ({
           <h2 className="text-xl sm:text-2xl font-bold text-white">Research Laboratory</h2>
         </div>
         <p className="text-blue-300 text-sm sm:text-base">Advance your knowledge and power</p>
+        <div className="flex items-center justify-center gap-4 mt-2 text-xs sm:text-sm">
+          <span className="text-green-400 flex items-center gap-1">
+            <TrendingUp className="w-4 h-4" />
+            Research Level {research.level}
+          </span>
+          <span className="text-gray-300">Total spent: {research.totalSpent} coins</span>
+        </div>
       </div>
 
-      {/* Single Research Tree */}
-      <div className="max-w-md mx-auto">
-        <div className="p-4 sm:p-6 rounded-lg border-2 border-purple-500/50 bg-purple-900/30">
-          <div className="text-center mb-4">
-            <Brain className="w-12 h-12 sm:w-16 sm:h-16 mx-auto mb-3 text-purple-400" />
-            <h3 className="font-bold text-lg sm:text-xl text-purple-400">
-              Universal Research
-            </h3>
-            <p className="text-gray-300 text-sm mt-2">
-              Choose your path of advancement
-            </p>
-          </div>
-
-          {/* Current Stats */}
-          <div className="space-y-3 mb-4">
-            <div className="bg-black/30 p-3 rounded-lg">
-              <div className="flex items-center gap-2 mb-2">
-                <TrendingUp className="w-4 h-4 text-green-400" />
-                <span className="text-white font-semibold text-sm">Research Level</span>
-              </div>
-              <p className="text-2xl font-bold text-green-400">{research.level}</p>
-            </div>
-
-            <div className="bg-black/30 p-3 rounded-lg">
-              <div className="flex items-center gap-2 mb-2">
-                <TrendingUp className="w-4 h-4 text-yellow-400" />
-                <span className="text-white font-semibold text-sm">Current Bonus</span>
-              </div>
-              <p className="text-2xl font-bold text-yellow-400">+{currentBonus}%</p>
-            </div>
-          </div>
-
-          {/* Upgrade Section */}
-          <div className="bg-black/40 p-4 rounded-lg">
-            <div className="flex items-center justify-between mb-3">
-              <div>
-                <p className="text-white font-semibold text-sm">Next Level</p>
-                <p className="text-gray-300 text-xs">
-                  Bonus: +{currentBonus}% → +{nextBonus}%
-                </p>
-              </div>
-              <div className="flex items-center gap-2 text-yellow-300">
-                <Coins className="w-4 h-4" />
-                <span className="font-semibold text-sm">{cost}</span>
-              </div>
-            </div>
-
+      {/* Branch Tabs */}
+      <div className="flex gap-2 mb-4 max-w-md mx-auto">
+        {researchBranches.map(branch => {
+          const Icon = branchStyles[branch.id].icon;
+          const isActive = branch.id === activeBranch;
+          return (
             <button
-              onClick={() => setShowUpgradeModal(true)}
-              disabled={coins < cost}
-              className={`w-full py-3 rounded-lg font-bold transition-all duration-200 text-sm ${
-                coins >= cost
-                  ? 'bg-gradient-to-r from-purple-600 to-purple-500 text-white hover:scale-105 shadow-lg'
-                  : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+              key={branch.id}
+              onClick={() => selectBranch(branch.id)}
+              className={`flex-1 py-2 rounded-lg font-semibold text-sm flex items-center justify-center gap-1 transition-all ${
+                isActive ? `${branchStyles[branch.id].bg} ${branchStyles[branch.id].color} border ${branchStyles[branch.id].border}` : 'bg-black/30 text-gray-400 hover:text-white'
               }`}
             >
-              {coins >= cost ? 'Choose Upgrade Path' : 'Insufficient Coins'}
+              <Icon className="w-4 h-4" />
+              {branch.name}
             </button>
-
-            <div className="mt-3 text-center">
-              <p className="text-xs text-gray-300">
-                Total spent: {research.totalSpent} coins
-              </p>
-            </div>
-          </div>
-        </div>
+          );
+        })}
       </div>
 
-      {/* Upgrade Selection Modal */}
-      {showUpgradeModal && (
-        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
-          <div className="bg-gradient-to-br from-purple-900 to-indigo-900 p-6 rounded-lg border border-purple-500/50 max-w-2xl w-full">
-            <div className="flex justify-between items-center mb-6">
-              <h3 className="text-white font-bold text-xl">Choose Your Research Path</h3>
-              <button
-                onClick={() => setShowUpgradeModal(false)}
-                className="text-gray-400 hover:text-white transition-colors"
-              >
-                <X className="w-5 h-5" />
-              </button>
-            </div>
-
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-              {upgradeOptions.map((option) => {
-                const Icon = option.icon;
-                return (
-                  <button
-                    key={option.key}
-                    onClick={() => handleUpgrade(option.key)}
-                    className={`p-4 rounded-lg border-2 ${option.borderColor} ${option.bgColor} hover:scale-105 transition-all duration-200`}
-                  >
-                    <div className="text-center">
-                      <Icon className={`w-12 h-12 mx-auto mb-3 ${option.color}`} />
-                      <h4 className={`font-bold text-lg ${option.color} mb-2`}>
-                        {option.name}
-                      </h4>
-                      <p className="text-gray-300 text-sm">
-                        {option.description}
-                      </p>
-                    </div>
-                  </button>
-                );
-              })}
-            </div>
-
-            <div className="mt-6 text-center">
-              <p className="text-gray-300 text-sm">
-                Each upgrade provides a permanent 10% bonus to the selected stat
-              </p>
-            </div>
-          </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-3xl mx-auto">
+        {/* Branch Tree */}
+        <div className="flex flex-col items-stretch">
+          {branchNodes.map((node, index) => (
+            <React.Fragment key={node.id}>
+              {index > 0 && <ChevronDown className="w-5 h-5 text-gray-400 mx-auto my-1" />}
+              {renderNode(node)}
+            </React.Fragment>
+          ))}
         </div>
-      )}
+
+        {renderDetails(selectedNode)}
+      </div>
 
       {/* Info */}
       <div className="mt-4 sm:mt-6 text-center">
         <p className="text-xs sm:text-sm text-gray-300">
-          Research provides permanent stat bonuses. Choose wisely!
+          Each branch levels separately. Deeper research unlocks once its prerequisites are met.
         </p>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Download, RotateCcw, Play } from 'lucide-react';
+
+interface SaveLoadErrorProps {
+  error: string;
+  onRestoreBackup: () => Promise<void>;
+  onGetBackup: () => Promise<string | null>;
+  onStartNewGame: () => void;
+}
+
+export const SaveLoadError: React.FC<SaveLoadErrorProps> = ({
+  error,
+  onRestoreBackup,
+  onGetBackup,
+  onStartNewGame
+}) => {
+  const [confirmNewGame, setConfirmNewGame] = useState(false);
+
+  const handleDownload = async () => {
+    const backup = await onGetBackup();
+    if (!backup) return;
+    const url = URL.createObjectURL(new Blob([backup], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'hugoland-save-backup.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center p-4">
+      <div className="bg-gradient-to-br from-red-900/80 to-black/80 p-6 rounded-lg border border-red-500/50 max-w-md w-full text-center">
+        <AlertTriangle className="w-12 h-12 text-red-400 mx-auto mb-4" />
+        <h2 className="text-white font-bold text-xl mb-2">Your save couldn't be loaded</h2>
+        <p className="text-gray-300 text-sm mb-3">
+          Your progress has not been deleted. A backup copy was kept, and nothing will be saved over it until you choose what to do.
+        </p>
+        <p className="text-red-300 text-xs font-mono bg-black/40 p-2 rounded mb-4 break-words">{error}</p>
+        <p className="text-gray-400 text-xs mb-4">
+          If this save came from a newer version of Hugoland, update the game and then restore the backup.
+        </p>
+
+        <div className="space-y-2">
+          <button
+            onClick={onRestoreBackup}
+            className="w-full py-2 rounded-lg bg-green-600 text-white font-semibold hover:bg-green-500 transition-all flex items-center justify-center gap-2"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Restore Backup
+          </button>
+          <button
+            onClick={handleDownload}
+            className="w-full py-2 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-500 transition-all flex items-center justify-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            Download Backup
+          </button>
+          {confirmNewGame ? (
+            <div className="flex gap-2">
+              <button
+                onClick={onStartNewGame}
+                className="flex-1 py-2 rounded-lg bg-red-600 text-white font-semibold hover:bg-red-500 transition-all"
+              >
+                Start Over
+              </button>
+              <button
+                onClick={() => setConfirmNewGame(false)}
+                className="flex-1 py-2 rounded-lg bg-gray-600 text-white font-semibold hover:bg-gray-500 transition-all"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setConfirmNewGame(true)}
+              className="w-full py-2 rounded-lg bg-gray-700 text-gray-200 font-semibold hover:bg-gray-600 transition-all flex items-center justify-center gap-2"
+            >
+              <Play className="w-4 h-4" />
+              Start a New Game
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { SkillsSystem, MenuSkill } from '../types/game';
+import { isMenuSkillExpired } from '../utils/menuSkills';
 import { Zap, Clock, Coins, X, Dice6, Star, TrendingUp, Package, Sparkles } from 'lucide-react';
 
 interface SkillsProps {
@@ -58,7 +59,7 @@ export const Skills: React.FC<SkillsProps> = ({
     enchanter: 'Epic+ drops have 80% chance to be enchanted'
   };
 
-  const isActiveSkillExpired = skills.activeMenuSkill && new Date() > new Date(skills.activeMenuSkill.expiresAt);
+  const isActiveSkillExpired = skills.activeMenuSkill && isMenuSkillExpired(skills.activeMenuSkill, new Date());
   const canRoll = coins >= 100 && (!skills.activeMenuSkill || isActiveSkillExpired);
 
   return (
@@ -98,10 +99,10 @@ export const Skills: React.FC<SkillsProps> = ({
               </div>
               <div className="text-right">
                 <p className="text-white text-sm">
-                  Expires: {new Date(skills.activeMenuSkill.expiresAt).toLocaleString()}
+                  Expires: {skills.activeMenuSkill.expiresAt.toLocaleString()}
                 </p>
                 <p className="text-gray-300 text-xs">
-                  {Math.max(0, Math.ceil((new Date(skills.activeMenuSkill.expiresAt).getTime() - Date.now()) / (1000 * 60 * 60)))} hours left
+                  {Math.max(0, Math.ceil((skills.activeMenuSkill.expiresAt.getTime() - Date.now()) / (1000 * 60 * 60)))} hours left
                 </p>
               </div>
             </div>
@@ -1,13 +1,17 @@
 import React from 'react';
-import { Statistics as StatisticsType } from '../types/game';
-import { BarChart3, Clock, Target, Coins, Gem, Package, X, TrendingUp } from 'lucide-react';
+import { DifficultyRatings, GameSettings, Statistics as StatisticsType, TriviaQuestion } from '../types/game';
+import { BarChart3, Clock, Target, Coins, Gem, Package, X, TrendingUp, Gauge } from 'lucide-react';
+import { getCategoryRating, getQuestionRating, getRatingTitle } from '../utils/difficultyRating';
 
 interface StatisticsProps {
   statistics: StatisticsType;
+  difficultyRatings: DifficultyRatings;
+  questionDifficulty: GameSettings['questionDifficulty'];
+  questions: TriviaQuestion[];
   onClose: () => void;
 }
 
-export const Statistics: React.FC<StatisticsProps> = ({ statistics, onClose }) => {
+export const Statistics: React.FC<StatisticsProps> = ({ statistics, difficultyRatings, questionDifficulty, questions, onClose }) => {
   const accuracy = statistics.totalQuestionsAnswered > 0 
     ? (statistics.correctAnswers / statistics.totalQuestionsAnswered) * 100 
     : 0;
@@ -24,6 +28,16 @@ export const Statistics: React.FC<StatisticsProps> = ({ statistics, onClose }) =
     })
   ).sort((a, b) => b.accuracy - a.accuracy);
 
+  const categoryRatings = Object.keys(difficultyRatings.categories)
+    .map(category => ({ category, rating: getCategoryRating(difficultyRatings, category) }))
+    .sort((a, b) => b.rating - a.rating);
+
+  // Only questions that have been answered at least once have a rating of their own
+  const ratedQuestions = questions
+    .filter(q => difficultyRatings.questions[q.id] !== undefined)
+    .map(q => ({ question: q, rating: getQuestionRating(difficultyRatings, q) }))
+    .sort((a, b) => b.rating - a.rating);
+
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
       <div className="bg-gradient-to-br from-slate-900 to-gray-900 p-4 sm:p-6 rounded-lg border border-slate-500/50 max-w-4xl w-full max-h-[80vh] overflow-y-auto">
@@ -146,6 +160,50 @@ export const Statistics: React.FC<StatisticsProps> = ({ statistics, onClose }) =
             </p>
           )}
         </div>
+
+        {/* Difficulty Ratings */}
+        <div className="bg-black/30 p-4 rounded-lg mt-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-white font-bold text-lg flex items-center gap-2">
+              <Gauge className="w-5 h-5 text-cyan-400" />
+              Difficulty Ratings
+            </h3>
+            <span className="text-xs text-gray-300">
+              {questionDifficulty === 'adaptive' ? 'Adaptive difficulty' : 'Zone-based difficulty'}
+            </span>
+          </div>
+          {categoryRatings.length > 0 ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-4">
+              {categoryRatings.map(({ category, rating }) => (
+                <div key={category} className="flex justify-between items-center bg-black/30 px-3 py-2 rounded">
+                  <span className="text-white font-medium text-sm">{category}</span>
+                  <span className="text-cyan-300 text-sm">
+                    {rating} · {getRatingTitle(rating)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-400 text-center py-4">
+              Your ratings appear once you've answered a few questions.
+            </p>
+          )}
+
+          {ratedQuestions.length > 0 && (
+            <>
+              <h4 className="text-white font-semibold text-sm mb-2">Toughest Questions</h4>
+              <div className="space-y-1">
+                {ratedQuestions.slice(0, 5).map(({ question, rating }) => (
+                  <div key={question.id} className="flex justify-between gap-3 text-xs">
+                    <span className="text-gray-300 truncate">{question.question}</span>
+                    <span className="text-red-300 flex-shrink-0">{rating}</span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400 mt-2">{ratedQuestions.length} questions rated so far</p>
+            </>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,62 @@
+import React, { useEffect } from 'react';
+import { UnlockNotification } from '../types/game';
+import { Trophy, Tag, X } from 'lucide-react';
+
+interface UnlockToastsProps {
+  notifications: UnlockNotification[];
+  onDismiss: (notificationId: string) => void;
+}
+
+const TOAST_DURATION_MS = 4000;
+const MAX_VISIBLE_TOASTS = 3;
+
+export const UnlockToasts: React.FC<UnlockToastsProps> = ({ notifications, onDismiss }) => {
+  const visible = notifications.slice(0, MAX_VISIBLE_TOASTS);
+  const oldestId = visible[0]?.id;
+
+  // Toasts leave one at a time, oldest first
+  useEffect(() => {
+    if (!oldestId) return;
+    const timer = setTimeout(() => onDismiss(oldestId), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [oldestId, onDismiss]);
+
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="fixed top-4 right-4 z-[60] flex flex-col gap-2 w-72 max-w-[calc(100vw-2rem)]">
+      {visible.map(notification => (
+        <div
+          key={notification.id}
+          className={`flex items-start gap-3 p-3 rounded-lg border shadow-lg ${
+            notification.kind === 'achievement'
+              ? 'bg-gradient-to-r from-yellow-900/95 to-orange-900/95 border-yellow-500/50'
+              : 'bg-gradient-to-r from-purple-900/95 to-indigo-900/95 border-purple-500/50'
+          }`}
+        >
+          <span className="text-2xl">{notification.icon}</span>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-1">
+              {notification.kind === 'achievement' ? (
+                <Trophy className="w-3 h-3 text-yellow-400" />
+              ) : (
+                <Tag className="w-3 h-3 text-purple-400" />
+              )}
+              <span className="text-xs text-gray-300">
+                {notification.kind === 'achievement' ? 'Achievement Unlocked' : 'Tag Unlocked'}
+              </span>
+            </div>
+            <p className="text-white font-bold text-sm truncate">{notification.title}</p>
+            <p className="text-gray-300 text-xs">{notification.description}</p>
+          </div>
+          <button
+            onClick={() => onDismiss(notification.id)}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
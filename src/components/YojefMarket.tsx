@@ -1,12 +1,15 @@
 import React, { useState } from 'react';
 import { RelicItem } from '../types/game';
-import { Package, Gem, X, Clock, Sword, Shield } from 'lucide-react';
+import { Package, Gem, X, Clock, Sword, Shield, RefreshCw } from 'lucide-react';
+import { MAX_EQUIPPED_RELICS, RELIC_SELL_REFUND_RATE } from '../utils/relics';
 
 interface YojefMarketProps {
   relicItems: RelicItem[];
   gems: number;
   equippedRelicsCount: number;
+  rerollCost: number;
   onPurchaseRelic: (relicId: string) => boolean;
+  onReroll: () => boolean;
   onClose: () => void;
   nextRefresh: Date;
 }
@@ -15,24 +18,25 @@ export const YojefMarket: React.FC<YojefMarketProps> = ({
   relicItems,
   gems,
   equippedRelicsCount,
+  rerollCost,
   onPurchaseRelic,
+  onReroll,
   onClose,
   nextRefresh
 }) => {
   const [selectedRelic, setSelectedRelic] = useState<RelicItem | null>(null);
 
-  // Ensure nextRefresh is a Date object
-  const refreshDate = nextRefresh instanceof Date ? nextRefresh : new Date(nextRefresh);
-  const timeUntilRefresh = Math.max(0, refreshDate.getTime() - Date.now());
-  const minutesLeft = Math.floor(timeUntilRefresh / 60000);
-  const secondsLeft = Math.floor((timeUntilRefresh % 60000) / 1000);
+  const timeUntilRefresh = Math.max(0, nextRefresh.getTime() - Date.now());
+  const hoursLeft = Math.floor(timeUntilRefresh / 3600000);
+  const minutesLeft = Math.floor((timeUntilRefresh % 3600000) / 60000);
 
-  const handlePurchase = (relic: RelicItem) => {
-    if (equippedRelicsCount >= 5) {
-      alert('You can only have 5 relics equipped at once! Sell or unequip some first.');
-      return;
+  const handleReroll = () => {
+    if (!onReroll()) {
+      alert('Not enough gems!');
     }
-    
+  };
+
+  const handlePurchase = (relic: RelicItem) => {
     const success = onPurchaseRelic(relic.id);
     if (success) {
       setSelectedRelic(null);
@@ -70,16 +74,28 @@ export const YojefMarket: React.FC<YojefMarketProps> = ({
             <div className="flex items-center gap-2">
               <Clock className="w-5 h-5 text-yellow-400" />
               <span className="text-yellow-400 font-semibold">
-                Refresh: {minutesLeft}m {secondsLeft}s
+                Refresh: {hoursLeft}h {minutesLeft}m
               </span>
             </div>
           </div>
           <div className="text-center">
             <p className="text-gray-300 text-sm">
-              Equipped Relics: {equippedRelicsCount}/5 | 
-              <span className="text-red-400 ml-1">Relics cannot be sold for coins or gems</span>
+              Equipped Relics: {equippedRelicsCount}/{MAX_EQUIPPED_RELICS} | 
+              <span className="text-indigo-300 ml-1">Purchases go to your inventory; sell relics back for {RELIC_SELL_REFUND_RATE * 100}% of gems spent</span>
             </p>
           </div>
+          <button
+            onClick={handleReroll}
+            disabled={gems < rerollCost}
+            className={`mt-3 w-full py-2 rounded-lg font-semibold transition-all text-sm flex items-center justify-center gap-2 ${
+              gems >= rerollCost
+                ? 'bg-gradient-to-r from-yellow-600 to-orange-600 text-white hover:from-yellow-500 hover:to-orange-500'
+                : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+            }`}
+          >
+            <RefreshCw className="w-4 h-4" />
+            Reroll Stock ({rerollCost} gems)
+          </button>
         </div>
 
         {/* Relic Grid */}
@@ -129,19 +145,14 @@ export const YojefMarket: React.FC<YojefMarketProps> = ({
 
               <button
                 onClick={() => handlePurchase(relic)}
-                disabled={gems < relic.cost || equippedRelicsCount >= 5}
+                disabled={gems < relic.cost}
                 className={`w-full py-2 rounded-lg font-semibold transition-all text-sm ${
-                  gems >= relic.cost && equippedRelicsCount < 5
+                  gems >= relic.cost
                     ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white hover:from-indigo-500 hover:to-purple-500'
                     : 'bg-gray-600 text-gray-400 cursor-not-allowed'
                 }`}
               >
-                {equippedRelicsCount >= 5 
-                  ? 'Relic Limit Reached' 
-                  : gems >= relic.cost 
-                    ? 'Purchase Relic' 
-                    : 'Not Enough Gems'
-                }
+                {gems >= relic.cost ? 'Purchase Relic' : 'Not Enough Gems'}
               </button>
             </div>
           ))}
@@ -1,13 +1,40 @@
 import { useState, useEffect, useCallback } from 'react';
-import { GameState, Weapon, Armor, Enemy, ChestReward, RelicItem, Achievement, PlayerTag, DailyReward, MenuSkill, AdventureSkill } from '../types/game';
-import { generateWeapon, generateArmor, generateEnemy, generateRelicItem, getChestRarityWeights, calculateResearchBonus, calculateResearchCost } from '../utils/gameUtils';
-import { checkAchievements, initializeAchievements } from '../utils/achievements';
-import { checkPlayerTags, initializePlayerTags } from '../utils/playerTags';
+import { GameState, Multipliers, QuestionPack, Weapon, Armor, Enemy, ChestReward, RelicItem, Achievement, PlayerTag, DailyReward, MenuSkill, AdventureSkill } from '../types/game';
+import { generateWeapon, generateArmor, getChestRarityWeights, getRepairCost } from '../utils/gameUtils';
+import { getTotalRepairCost, isItemBroken, isItemDamaged, isWeapon, repairInventoryItems, rollDurabilityLoss, wearEquippedItem } from '../utils/equipment';
+import { initializeAchievements } from '../utils/achievements';
+import { initializePlayerTags } from '../utils/playerTags';
+import { XP_PER_CORRECT_ANSWER, addExperience, calculateVictoryExperience, getSkillEffects, getSkillLevel, skillDefinitions } from '../utils/progression';
+import { applyPrestigeReset, calculatePrestigePoints, canPrestige, getPrestigeMultipliers, getPrestigeUpgradeCost, getPrestigeUpgradeLevel, prestigeUpgradeDefinitions } from '../utils/prestige';
+import { TIME_ATTACK_DURATION, TIME_ATTACK_VICTORY_POINTS, calculateTimeAttackPoints, endModeRun, generateRunEnemy, getRunRewardMultiplier, startModeRunIfNeeded } from '../utils/gameModes';
+import { advanceGarden } from '../utils/garden';
+import { POISON_TURNS, absorbWithShield, resolveEnemyTurn } from '../utils/enemies';
+import { rollEnemyLoot } from '../utils/loot';
+import { addToCollectionBook } from '../utils/collectionBook';
+import { getMultiplierCost, getNextMultiplierLevel } from '../utils/multipliers';
+import { computeEffectiveStats, syncPlayerHp } from '../utils/effectiveStats';
+import { getResearchBonuses, purchaseResearchNode } from '../utils/research';
+import { recordQuestionAnswer } from '../utils/questionSelection';
+import { getEnabledQuestions } from '../utils/questionPacks';
+import { updateDifficultyRatings } from '../utils/difficultyRating';
+import { MASTERY_XP_PER_CORRECT_ANSWER, addMasteryExperience, getMasteryBonus, getMasteryLevel } from '../utils/mastery';
+import { getModeModifiers } from '../utils/modeModifiers';
+import { COIN_VACUUM_COINS_PER_MINUTE, consumeMenuSkill, getEnchantChance, getXpSurgeMultiplier, isMenuSkillActive, refreshMenuSkillExpiry } from '../utils/menuSkills';
+import { applyOfflineProgress } from '../utils/offlineProgress';
+import { DEFAULT_DAILY_RESET_HOUR, refreshDailyRewards } from '../utils/dailyRewards';
+import { MAX_MINE_DEPTH, NODES_PER_DEPTH, fillMiningNodes, getMiningPower, getNodeYield, initializeMiningTools } from '../utils/mining';
+import { MAX_EQUIPPED_RELICS, MAX_RELIC_LOADOUTS, createRelicLoadout, getLoadoutRelics, getRelicSellValue, removeRelicFromLoadouts } from '../utils/relics';
+import { DEFAULT_YOJEF_SLOTS, getRelicQuality, getYojefRerollCost, refreshYojefMarketIfDue, rerollYojefMarket } from '../utils/yojefMarket';
+import { CURRENT_SAVE_VERSION } from '../utils/saveMigrations';
+import { deserializeGameState, serializeGameState } from '../utils/saveSerializer';
+import { applyUnlocks } from '../utils/unlocks';
 import AsyncStorage from '../utils/storage';
 
 const STORAGE_KEY = 'hugoland_game_state';
+const BACKUP_STORAGE_KEY = 'hugoland_game_state_backup';
 
-const createInitialGameState = (): GameState => ({
+export const createInitialGameState = (): GameState => ({
+  saveVersion: CURRENT_SAVE_VERSION,
   coins: 100,
   gems: 0,
   shinyGems: 0,
@@ -21,6 +48,9 @@ const createInitialGameState = (): GameState => ({
     baseDef: 10,
     baseHp: 100,
   },
+  playerStatus: {
+    poisonTurns: 0,
+  },
   inventory: {
     weapons: [],
     armor: [],
@@ -28,6 +58,7 @@ const createInitialGameState = (): GameState => ({
     currentWeapon: null,
     currentArmor: null,
     equippedRelics: [],
+    relicLoadouts: [],
   },
   currentEnemy: null,
   inCombat: false,
@@ -35,7 +66,7 @@ const createInitialGameState = (): GameState => ({
   research: {
     level: 0,
     totalSpent: 0,
-    availableUpgrades: ['atk', 'def', 'hp'],
+    nodes: {},
   },
   isPremium: false,
   achievements: initializeAchievements(),
@@ -63,8 +94,10 @@ const createInitialGameState = (): GameState => ({
     survivalLives: 3,
     maxSurvivalLives: 3,
     timeAttackScore: 0,
-    timeAttackTimeLeft: 60,
+    timeAttackTimeLeft: TIME_ATTACK_DURATION,
     bossProgress: 0,
+    activeRun: null,
+    lastRunSummary: null,
   },
   statistics: {
     totalQuestionsAnswered: 0,
@@ -95,22 +128,54 @@ const createInitialGameState = (): GameState => ({
     infiniteGems: false,
     obtainAnyItem: false,
   },
-  mining: {
+  mining: fillMiningNodes({
     totalGemsMined: 0,
     totalShinyGemsMined: 0,
-  },
+    nodes: [],
+    tools: initializeMiningTools(),
+    depth: 1,
+    nodesMinedAtDepth: 0,
+  }, false),
   yojefMarket: {
     items: [],
     lastRefresh: new Date(),
-    nextRefresh: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    // Due immediately so a new game opens with a stocked market
+    nextRefresh: new Date(),
+    slots: DEFAULT_YOJEF_SLOTS,
+    rerollsSinceRefresh: 0,
   },
   playerTags: initializePlayerTags(),
+  notificationQueue: [],
+  lootPity: {
+    dropsSinceLegendary: 0,
+    dropsSinceMythical: 0,
+  },
+  questionPacks: {
+    imported: [],
+    disabledPackIds: [],
+  },
+  questionHistory: {
+    answered: 0,
+    entries: {},
+  },
+  difficultyRatings: {
+    categories: {},
+    questions: {},
+  },
+  multipliers: {
+    coins: 1,
+    gems: 1,
+    atk: 1,
+    def: 1,
+    hp: 1,
+  },
   dailyRewards: {
     lastClaimDate: null,
     currentStreak: 0,
     maxStreak: 0,
     availableReward: null,
     rewardHistory: [],
+    resetHour: DEFAULT_DAILY_RESET_HOUR,
   },
   progression: {
     level: 1,
@@ -120,7 +185,9 @@ const createInitialGameState = (): GameState => ({
     unlockedSkills: [],
     prestigeLevel: 0,
     prestigePoints: 0,
+    prestigeUpgrades: {},
     masteryLevels: {},
+    masteryExperience: {},
   },
   offlineProgress: {
     lastSaveTime: new Date(),
@@ -128,11 +195,19 @@ const createInitialGameState = (): GameState => ({
     offlineGems: 0,
     offlineTime: 0,
     maxOfflineHours: 24,
+    breakdown: {
+      zoneCoins: 0,
+      researchCoins: 0,
+      gardenCoins: 0,
+      zoneGems: 0,
+      gardenGems: 0,
+    },
   },
   gardenOfGrowth: {
     isPlanted: false,
     plantedAt: null,
     lastWatered: null,
+    lastTickAt: null,
     waterHoursRemaining: 0,
     growthCm: 0,
     totalGrowthBonus: 0,
@@ -145,6 +220,7 @@ const createInitialGameState = (): GameState => ({
     darkMode: true,
     language: 'en',
     notifications: true,
+    questionDifficulty: 'zone',
   },
   hasUsedRevival: false,
   skills: {
@@ -164,6 +240,7 @@ const createInitialGameState = (): GameState => ({
       truthLiesActive: false,
       lightningChainActive: false,
       rampActive: false,
+      statMultipliers: { atk: 1, def: 1, hp: 1 },
     },
   },
 });
@@ -171,50 +248,92 @@ const createInitialGameState = (): GameState => ({
 export const useGameState = () => {
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Set when the stored save was rejected; nothing is saved while it is
+  const [loadError, setLoadError] = useState<string | null>(null);
 
   // Load game state from storage
-  useEffect(() => {
-    const loadGameState = async () => {
-      try {
-        const savedState = await AsyncStorage.getItem(STORAGE_KEY);
-        if (savedState) {
-          const parsedState = JSON.parse(savedState);
-          // Ensure all new properties exist
-          const completeState = {
-            ...createInitialGameState(),
-            ...parsedState,
-            skills: {
-              ...createInitialGameState().skills,
-              ...parsedState.skills,
-            },
-            adventureSkills: {
-              ...createInitialGameState().adventureSkills,
-              ...parsedState.adventureSkills,
-            },
-          };
-          setGameState(completeState);
-        } else {
-          setGameState(createInitialGameState());
-        }
-      } catch (error) {
-        console.error('Error loading game state:', error);
-        setGameState(createInitialGameState());
-      } finally {
-        setIsLoading(false);
+  const loadGameState = useCallback(async () => {
+    let savedState: string | null = null;
+    try {
+      savedState = await AsyncStorage.getItem(STORAGE_KEY);
+      if (savedState) {
+        const now = new Date();
+        // Migrates, revives dates and validates before React sees the state
+        const loadedState = deserializeGameState(savedState, createInitialGameState());
+        // Catch the garden up first so offline earnings use the grown bonus
+        const caughtUpState = {
+          ...loadedState,
+          gardenOfGrowth: advanceGarden(loadedState.gardenOfGrowth, now),
+          skills: refreshMenuSkillExpiry(loadedState.skills, now),
+          dailyRewards: refreshDailyRewards(loadedState.dailyRewards, now),
+          yojefMarket: refreshYojefMarketIfDue(
+            loadedState.yojefMarket,
+            getRelicQuality(loadedState.zone, loadedState.progression.prestigeLevel),
+            now
+          ),
+        };
+        setGameState(applyOfflineProgress(caughtUpState, now));
+      } else {
+        const now = new Date();
+        const initialState = createInitialGameState();
+        setGameState({
+          ...initialState,
+          dailyRewards: refreshDailyRewards(initialState.dailyRewards, now),
+          yojefMarket: refreshYojefMarketIfDue(initialState.yojefMarket, getRelicQuality(initialState.zone, 0), now),
+        });
+      }
+      setLoadError(null);
+    } catch (error) {
+      console.error('Error loading game state:', error);
+      // Keep a copy of the rejected save and stop auto-save from writing a
+      // fresh game over it until the player decides what to do
+      if (savedState) {
+        await AsyncStorage.setItem(BACKUP_STORAGE_KEY, savedState);
       }
-    };
+      setLoadError(error instanceof Error ? error.message : String(error));
+      setGameState(createInitialGameState());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
 
+  useEffect(() => {
     loadGameState();
+  }, [loadGameState]);
+
+  // Puts the backed-up save back in place and tries loading it again, e.g.
+  // after updating to a version that understands it
+  const restoreBackup = useCallback(async (): Promise<void> => {
+    const backup = await AsyncStorage.getItem(BACKUP_STORAGE_KEY);
+    if (!backup) return;
+    await AsyncStorage.setItem(STORAGE_KEY, backup);
+    setIsLoading(true);
+    await loadGameState();
+  }, [loadGameState]);
+
+  const getBackupSave = useCallback(async (): Promise<string | null> => {
+    return AsyncStorage.getItem(BACKUP_STORAGE_KEY);
+  }, []);
+
+  // Gives up on the rejected save and lets auto-save start on a new game.
+  // The backup stays where it is.
+  const startNewGameAfterLoadError = useCallback(() => {
+    setLoadError(null);
   }, []);
 
   // Save game state to storage
   const saveGameState = useCallback(async (state: GameState) => {
+    if (loadError) return;
     try {
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+      // Stamp the save time so the next load knows how long we were away
+      await AsyncStorage.setItem(STORAGE_KEY, serializeGameState({
+        ...state,
+        offlineProgress: { ...state.offlineProgress, lastSaveTime: new Date() },
+      }));
     } catch (error) {
       console.error('Error saving game state:', error);
     }
-  }, []);
+  }, [loadError]);
 
   // Auto-save when game state changes
   useEffect(() => {
@@ -223,13 +342,110 @@ export const useGameState = () => {
     }
   }, [gameState, isLoading, saveGameState]);
 
+  // Keep lastSaveTime fresh while idle so time spent on the page is not
+  // later counted as offline time
+  useEffect(() => {
+    if (!gameState || isLoading) return;
+    const heartbeat = setInterval(() => saveGameState(gameState), 30000);
+    return () => clearInterval(heartbeat);
+  }, [gameState, isLoading, saveGameState]);
+
   const updateGameState = useCallback((updater: (state: GameState) => GameState) => {
     setGameState(prevState => {
       if (!prevState) return prevState;
-      return updater(prevState);
+      const nextState = updater(prevState);
+      // Evaluate achievements and tags after every mutation
+      return nextState === prevState ? prevState : applyUnlocks(syncPlayerHp(prevState, nextState));
     });
   }, []);
 
+  // Grow the garden in real time while the game is open
+  useEffect(() => {
+    if (isLoading) return;
+    const gardenTick = setInterval(() => {
+      updateGameState(state => {
+        if (!state.gardenOfGrowth.isPlanted) return state;
+        return { ...state, gardenOfGrowth: advanceGarden(state.gardenOfGrowth, new Date()) };
+      });
+    }, 60000);
+    return () => clearInterval(gardenTick);
+  }, [isLoading, updateGameState]);
+
+  // Time Attack runs on one global clock across every enemy in the run
+  useEffect(() => {
+    if (isLoading) return;
+    const timeAttackTick = setInterval(() => {
+      updateGameState(state => {
+        if (state.gameMode.activeRun?.mode !== 'timeAttack' || !state.inCombat) return state;
+
+        const timeAttackTimeLeft = state.gameMode.timeAttackTimeLeft - 1;
+        if (timeAttackTimeLeft > 0) {
+          return { ...state, gameMode: { ...state.gameMode, timeAttackTimeLeft } };
+        }
+
+        return {
+          ...state,
+          inCombat: false,
+          currentEnemy: null,
+          playerStatus: createInitialGameState().playerStatus,
+          combatLog: [...state.combatLog, `Time's up!`],
+          gameMode: endModeRun(state.gameMode, `Time's up`),
+          adventureSkills: createInitialGameState().adventureSkills,
+        };
+      });
+    }, 1000);
+    return () => clearInterval(timeAttackTick);
+  }, [isLoading, updateGameState]);
+
+  // Pay out Coin Vacuum and flag menu skills once they expire
+  useEffect(() => {
+    if (isLoading) return;
+    const menuSkillTick = setInterval(() => {
+      updateGameState(state => {
+        if (!state.skills.activeMenuSkill || state.skills.activeMenuSkill.isExpired) return state;
+
+        const now = new Date();
+        const vacuumCoins = isMenuSkillActive(state.skills, 'coin_vacuum', now) ? COIN_VACUUM_COINS_PER_MINUTE : 0;
+
+        return {
+          ...state,
+          coins: state.coins + vacuumCoins,
+          skills: refreshMenuSkillExpiry(state.skills, now),
+          statistics: {
+            ...state.statistics,
+            coinsEarned: state.statistics.coinsEarned + vacuumCoins,
+          },
+        };
+      });
+    }, 60000);
+    return () => clearInterval(menuSkillTick);
+  }, [isLoading, updateGameState]);
+
+  // Roll over to the next reward day while the game stays open
+  useEffect(() => {
+    if (isLoading) return;
+    const dailyRewardTick = setInterval(() => {
+      updateGameState(state => {
+        const dailyRewards = refreshDailyRewards(state.dailyRewards, new Date());
+        return dailyRewards === state.dailyRewards ? state : { ...state, dailyRewards };
+      });
+    }, 60000);
+    return () => clearInterval(dailyRewardTick);
+  }, [isLoading, updateGameState]);
+
+  // Restock the Yojef Market on its schedule
+  useEffect(() => {
+    if (isLoading) return;
+    const yojefTick = setInterval(() => {
+      updateGameState(state => {
+        const quality = getRelicQuality(state.zone, state.progression.prestigeLevel);
+        const yojefMarket = refreshYojefMarketIfDue(state.yojefMarket, quality, new Date());
+        return yojefMarket === state.yojefMarket ? state : { ...state, yojefMarket };
+      });
+    }, 60000);
+    return () => clearInterval(yojefTick);
+  }, [isLoading, updateGameState]);
+
   const equipWeapon = useCallback((weapon: Weapon) => {
     updateGameState(state => ({
       ...state,
@@ -360,25 +576,26 @@ export const useGameState = () => {
     });
   }, [updateGameState]);
 
-  const upgradeResearch = useCallback((type: 'atk' | 'def' | 'hp') => {
+  const upgradeResearch = useCallback((nodeId: string): boolean => {
+    let success = false;
+
     updateGameState(state => {
-      const cost = calculateResearchCost(state.research.level);
-      if (state.coins < cost) return state;
+      const purchase = purchaseResearchNode(state.research, nodeId);
+      if (!purchase || state.coins < purchase.cost) return state;
 
+      success = true;
       return {
         ...state,
-        coins: state.coins - cost,
-        research: {
-          ...state.research,
-          level: state.research.level + 1,
-          totalSpent: state.research.totalSpent + cost,
-        },
+        coins: state.coins - purchase.cost,
+        research: purchase.research,
         statistics: {
           ...state.statistics,
-          totalResearchSpent: state.statistics.totalResearchSpent + cost,
+          totalResearchSpent: state.statistics.totalResearchSpent + purchase.cost,
         },
       };
     });
+
+    return success;
   }, [updateGameState]);
 
   const openChest = useCallback((cost: number): ChestReward | null => {
@@ -401,9 +618,29 @@ export const useGameState = () => {
         }
       }
 
+      // Lucky Chests prestige upgrade and Treasure Mapping research can bump
+      // the roll one tier
+      const prestigeMultipliers = getPrestigeMultipliers(state.progression);
+      const chestLuck = prestigeMultipliers.chestLuck + getResearchBonuses(state.research).chestLuck;
+      const rarityIndex = rarities.indexOf(selectedRarity);
+      if (rarityIndex < rarities.length - 1 && Math.random() < chestLuck) {
+        selectedRarity = rarities[rarityIndex + 1];
+      }
+
+      // Treasurer guarantees epic or better on the next chest, then ends
+      const now = new Date();
+      let skills = state.skills;
+      if (isMenuSkillActive(skills, 'treasurer', now)) {
+        if (rarities.indexOf(selectedRarity) < rarities.indexOf('epic')) {
+          selectedRarity = 'epic';
+        }
+        skills = consumeMenuSkill(skills);
+      }
+
       // 70% chance for weapon, 30% for armor
       const isWeapon = Math.random() < 0.7;
-      const item = isWeapon ? generateWeapon(false, selectedRarity) : generateArmor(false, selectedRarity);
+      const enchantChance = getEnchantChance(state.skills, selectedRarity, now);
+      const item = isWeapon ? generateWeapon(false, selectedRarity, false, enchantChance) : generateArmor(false, selectedRarity, false, enchantChance);
 
       reward = {
         type: isWeapon ? 'weapon' : 'armor',
@@ -417,28 +654,13 @@ export const useGameState = () => {
         newInventory.armor = [...newInventory.armor, item as Armor];
       }
 
-      // Update collection book
-      const newCollectionBook = { ...state.collectionBook };
-      if (isWeapon) {
-        if (!newCollectionBook.weapons[item.name]) {
-          newCollectionBook.weapons[item.name] = true;
-          newCollectionBook.totalWeaponsFound += 1;
-        }
-      } else {
-        if (!newCollectionBook.armor[item.name]) {
-          newCollectionBook.armor[item.name] = true;
-          newCollectionBook.totalArmorFound += 1;
-        }
-      }
-
-      newCollectionBook.rarityStats[item.rarity as keyof typeof newCollectionBook.rarityStats] += 1;
-
       return {
         ...state,
         coins: state.coins - cost,
-        gems: state.gems + Math.floor(Math.random() * 10) + 5,
+        gems: state.gems + Math.floor((Math.floor(Math.random() * 10) + 5) * prestigeMultipliers.gems),
         inventory: newInventory,
-        collectionBook: newCollectionBook,
+        collectionBook: addToCollectionBook(state.collectionBook, item),
+        skills,
         statistics: {
           ...state.statistics,
           chestsOpened: state.statistics.chestsOpened + 1,
@@ -450,27 +672,22 @@ export const useGameState = () => {
     return reward;
   }, [updateGameState]);
 
-  const purchaseMythical = useCallback((cost: number): boolean => {
+  const purchaseMultiplier = useCallback((type: keyof Multipliers): boolean => {
     let success = false;
 
     updateGameState(state => {
-      if (state.coins < cost) return state;
+      const cost = getMultiplierCost(type, state.multipliers[type]);
+      if (state.coins < cost.coins || state.gems < cost.gems) return state;
 
       success = true;
-      const isWeapon = Math.random() < 0.5;
-      const item = isWeapon ? generateWeapon(false, 'mythical') : generateArmor(false, 'mythical');
-
-      const newInventory = { ...state.inventory };
-      if (isWeapon) {
-        newInventory.weapons = [...newInventory.weapons, item as Weapon];
-      } else {
-        newInventory.armor = [...newInventory.armor, item as Armor];
-      }
-
       return {
         ...state,
-        coins: state.coins - cost,
-        inventory: newInventory,
+        coins: state.coins - cost.coins,
+        gems: state.gems - cost.gems,
+        multipliers: {
+          ...state.multipliers,
+          [type]: getNextMultiplierLevel(state.multipliers[type]),
+        },
       };
     });
 
@@ -495,16 +712,17 @@ export const useGameState = () => {
 
   const selectAdventureSkill = useCallback((skill: AdventureSkill) => {
     updateGameState(state => {
-      const enemy = generateEnemy(state.zone);
+      const gameMode = startModeRunIfNeeded(state.gameMode, state.zone);
+      const enemy = generateRunEnemy(gameMode, state.zone);
       
       // Apply skill effects
       let modifiedPlayerStats = { ...state.playerStats };
-      let skillEffects = { ...state.adventureSkills.skillEffects };
+      let skillEffects = { ...state.adventureSkills.skillEffects, statMultipliers: { atk: 1, def: 1, hp: 1 } };
 
       switch (skill.type) {
         case 'risker':
           modifiedPlayerStats.hp = Math.floor(modifiedPlayerStats.hp * 0.85);
-          modifiedPlayerStats.atk = Math.floor(modifiedPlayerStats.atk * 1.2);
+          skillEffects.statMultipliers.atk = 1.2;
           break;
         case 'lightning_chain':
           skillEffects.lightningChainActive = true;
@@ -518,13 +736,8 @@ export const useGameState = () => {
                               statToDouble === 'def' ? (Math.random() < 0.5 ? 'atk' : 'hp') : 
                               (Math.random() < 0.5 ? 'atk' : 'def');
           
-          if (statToDouble === 'atk') modifiedPlayerStats.atk *= 2;
-          else if (statToDouble === 'def') modifiedPlayerStats.def *= 2;
-          else modifiedPlayerStats.hp *= 2;
-
-          if (statToReduce === 'atk') modifiedPlayerStats.atk = Math.floor(modifiedPlayerStats.atk * 0.6);
-          else if (statToReduce === 'def') modifiedPlayerStats.def = Math.floor(modifiedPlayerStats.def * 0.6);
-          else modifiedPlayerStats.hp = Math.floor(modifiedPlayerStats.hp * 0.6);
+          skillEffects.statMultipliers[statToDouble] = 2;
+          skillEffects.statMultipliers[statToReduce] = 0.6;
           
           skillEffects.rampActive = true;
           break;
@@ -534,6 +747,8 @@ export const useGameState = () => {
         ...state,
         currentEnemy: enemy,
         inCombat: true,
+        gameMode,
+        playerStatus: createInitialGameState().playerStatus,
         playerStats: modifiedPlayerStats,
         combatLog: [`You encounter a ${enemy.name}!`],
         adventureSkills: {
@@ -553,12 +768,15 @@ export const useGameState = () => {
 
   const skipAdventureSkills = useCallback(() => {
     updateGameState(state => {
-      const enemy = generateEnemy(state.zone);
+      const gameMode = startModeRunIfNeeded(state.gameMode, state.zone);
+      const enemy = generateRunEnemy(gameMode, state.zone);
       
       return {
         ...state,
         currentEnemy: enemy,
         inCombat: true,
+        gameMode,
+        playerStatus: createInitialGameState().playerStatus,
         combatLog: [`You encounter a ${enemy.name}!`],
         adventureSkills: {
           ...state.adventureSkills,
@@ -571,6 +789,7 @@ export const useGameState = () => {
             truthLiesActive: false,
             lightningChainActive: false,
             rampActive: false,
+            statMultipliers: { atk: 1, def: 1, hp: 1 },
           },
         },
       };
@@ -590,47 +809,128 @@ export const useGameState = () => {
     }));
   }, [updateGameState]);
 
-  const attack = useCallback((hit: boolean, category?: string) => {
+  // `credit` below 1 marks a close answer: a weaker hit that neither grows
+  // nor breaks the streak
+  const attack = useCallback((hit: boolean, category?: string, questionId?: string, credit = 1) => {
     updateGameState(state => {
       if (!state.currentEnemy) return state;
 
       let newState = { ...state };
+      // The enemy as it was when the turn started; changes this turn build
+      // new objects in `currentEnemy`
+      const enemy = state.currentEnemy;
+      let currentEnemy = enemy;
       let damage = 0;
       let enemyDamage = 0;
+      const prestigeMultipliers = getPrestigeMultipliers(newState.progression);
+      const skillEffects = getSkillEffects(newState.progression);
+      const xpSurgeMultiplier = getXpSurgeMultiplier(newState.skills, new Date());
+      const modeModifiers = getModeModifiers(newState.gameMode.current);
+      const effectiveStats = computeEffectiveStats(state);
+      const fullCredit = hit && credit >= 1;
+      // Survival runs restore no health between or during fights
+      const isSurvivalRun = state.gameMode.activeRun?.mode === 'survival';
+
+      if (questionId) {
+        newState.questionHistory = recordQuestionAnswer(newState.questionHistory, questionId, fullCredit);
+        // A close answer counts as its partial credit towards the ratings
+        const question = getEnabledQuestions(newState.questionPacks).find(q => q.id === questionId);
+        if (question) {
+          newState.difficultyRatings = updateDifficultyRatings(newState.difficultyRatings, question, hit ? credit : 0);
+        }
+      }
 
       if (hit) {
         // Player attacks
-        damage = Math.max(1, newState.playerStats.atk - newState.currentEnemy.def);
+        damage = Math.max(1, Math.floor((effectiveStats.atk.total - enemy.def) * credit));
+
+        // Damage perk for the question's category
+        if (category) {
+          damage = Math.floor(damage * (1 + getMasteryBonus(newState.progression, category, 'damage')));
+        }
         
         // Apply lightning chain bonus
         if (newState.adventureSkills.skillEffects.lightningChainActive) {
           damage = Math.floor(damage * 1.15);
         }
 
-        newState.currentEnemy.hp = Math.max(0, newState.currentEnemy.hp - damage);
-        newState.combatLog = [...newState.combatLog, `You deal ${damage} damage!`];
+        // A shield soaks up damage before the enemy's HP does
+        const shielded = absorbWithShield(currentEnemy, damage);
+        if (shielded.absorbed > 0) {
+          currentEnemy = { ...currentEnemy, shield: shielded.shield };
+          newState.combatLog = [...newState.combatLog, shielded.shield > 0
+            ? `The shield absorbs ${shielded.absorbed} damage!`
+            : `The shield absorbs ${shielded.absorbed} damage and shatters!`];
+        }
+        damage = shielded.damage;
+
+        currentEnemy = { ...currentEnemy, hp: Math.max(0, currentEnemy.hp - damage) };
+        newState.combatLog = [...newState.combatLog, fullCredit ? `You deal ${damage} damage!` : `Close enough! You deal ${damage} damage!`];
+
+        // Each hit dealt wears the equipped weapon
+        newState.inventory = wearEquippedItem(newState.inventory, 'weapon', rollDurabilityLoss(skillEffects.durabilityLossMultiplier));
+        if (state.inventory.currentWeapon && !isItemBroken(state.inventory.currentWeapon) && newState.inventory.currentWeapon && isItemBroken(newState.inventory.currentWeapon)) {
+          newState.combatLog = [...newState.combatLog, `Your ${newState.inventory.currentWeapon.name} broke!`];
+        }
 
         // Update knowledge streak
-        newState.knowledgeStreak.current += 1;
-        if (newState.knowledgeStreak.current > newState.knowledgeStreak.best) {
-          newState.knowledgeStreak.best = newState.knowledgeStreak.current;
+        if (fullCredit) {
+          newState.knowledgeStreak.current += 1;
+          if (newState.knowledgeStreak.current > newState.knowledgeStreak.best) {
+            newState.knowledgeStreak.best = newState.knowledgeStreak.current;
+          }
+          newState.knowledgeStreak.multiplier = 1 + (newState.knowledgeStreak.current * 0.1 * skillEffects.streakGrowthMultiplier);
         }
-        newState.knowledgeStreak.multiplier = 1 + (newState.knowledgeStreak.current * 0.1);
 
-        // Update statistics
-        newState.statistics.correctAnswers += 1;
+        const masteryXpBonus = category ? getMasteryBonus(newState.progression, category, 'xp') : 0;
+        newState.progression = addExperience(newState.progression, Math.floor(XP_PER_CORRECT_ANSWER * credit * (1 + masteryXpBonus)), xpSurgeMultiplier);
+
+        if (category) {
+          // Heal and coin perks only pay out for a fully correct answer
+          if (fullCredit && !isSurvivalRun) {
+            const heal = Math.floor(effectiveStats.maxHp.total * getMasteryBonus(newState.progression, category, 'heal'));
+            if (heal > 0) {
+              newState.playerStats.hp = Math.min(effectiveStats.maxHp.total, newState.playerStats.hp + heal);
+            }
+            const perkCoins = getMasteryBonus(newState.progression, category, 'coins');
+            newState.coins += perkCoins;
+            newState.statistics.coinsEarned += perkCoins;
+          }
+
+          const mastery = addMasteryExperience(newState.progression, category, Math.floor(MASTERY_XP_PER_CORRECT_ANSWER * credit));
+          newState.progression = mastery.progression;
+          if (mastery.levelsGained > 0) {
+            newState.combatLog = [...newState.combatLog, `${category} mastery reached level ${getMasteryLevel(newState.progression, category)}!`];
+          }
+          mastery.milestones.forEach(milestone => {
+            newState.coins += milestone.coins;
+            newState.gems += milestone.gems;
+            newState.statistics.coinsEarned += milestone.coins;
+            newState.statistics.gemsEarned += milestone.gems;
+            const rewards = [milestone.coins > 0 && `+${milestone.coins} coins`, milestone.gems > 0 && `+${milestone.gems} gems`].filter(Boolean).join(', ');
+            newState.combatLog = [...newState.combatLog, `Mastery milestone: ${rewards}!`];
+          });
+        }
+
+        // Update statistics; a close answer counts towards the total but not
+        // the correct answers
+        if (fullCredit) {
+          newState.statistics.correctAnswers += 1;
+        }
         newState.statistics.totalDamageDealt += damage;
 
         if (category) {
           if (!newState.statistics.accuracyByCategory[category]) {
             newState.statistics.accuracyByCategory[category] = { correct: 0, total: 0 };
           }
-          newState.statistics.accuracyByCategory[category].correct += 1;
+          if (fullCredit) {
+            newState.statistics.accuracyByCategory[category].correct += 1;
+          }
           newState.statistics.accuracyByCategory[category].total += 1;
         }
       } else {
         // Enemy attacks
-        enemyDamage = Math.max(1, newState.currentEnemy.atk - newState.playerStats.def);
+        enemyDamage = Math.max(1, enemy.atk - effectiveStats.def.total);
         
         // Apply dodge skill
         if (newState.adventureSkills.skillEffects.dodgeUsed === false && newState.adventureSkills.selectedSkill?.type === 'dodge') {
@@ -645,11 +945,22 @@ export const useGameState = () => {
           newState.playerStats.hp = Math.max(0, newState.playerStats.hp - enemyDamage);
           newState.combatLog = [...newState.combatLog, `Enemy deals ${enemyDamage} damage!`];
           newState.statistics.totalDamageTaken += enemyDamage;
+
+          if (enemy.specialAbility === 'poison') {
+            newState.playerStatus = { ...newState.playerStatus, poisonTurns: POISON_TURNS };
+            newState.combatLog = [...newState.combatLog, `You are poisoned!`];
+          }
+
+          // Each hit taken wears the equipped armor
+          newState.inventory = wearEquippedItem(newState.inventory, 'armor', rollDurabilityLoss(skillEffects.durabilityLossMultiplier));
+          if (state.inventory.currentArmor && !isItemBroken(state.inventory.currentArmor) && newState.inventory.currentArmor && isItemBroken(newState.inventory.currentArmor)) {
+            newState.combatLog = [...newState.combatLog, `Your ${newState.inventory.currentArmor.name} broke!`];
+          }
         }
 
-        // Reset knowledge streak
-        newState.knowledgeStreak.current = 0;
-        newState.knowledgeStreak.multiplier = 1;
+        // Reset knowledge streak, keeping whatever Steady Focus research retains
+        newState.knowledgeStreak.current = Math.floor(newState.knowledgeStreak.current * getResearchBonuses(newState.research).streakRetention);
+        newState.knowledgeStreak.multiplier = 1 + (newState.knowledgeStreak.current * 0.1 * skillEffects.streakGrowthMultiplier);
 
         if (category) {
           if (!newState.statistics.accuracyByCategory[category]) {
@@ -661,36 +972,109 @@ export const useGameState = () => {
 
       newState.statistics.totalQuestionsAnswered += 1;
 
+      // Track answers for an active Survival / Time Attack / Boss Rush run
+      const answeredRun = newState.gameMode.activeRun;
+      if (answeredRun) {
+        newState.gameMode = {
+          ...newState.gameMode,
+          activeRun: {
+            ...answeredRun,
+            correctAnswers: answeredRun.correctAnswers + (fullCredit ? 1 : 0),
+            wrongAnswers: answeredRun.wrongAnswers + (hit ? 0 : 1),
+            score: answeredRun.score + (fullCredit && answeredRun.mode === 'timeAttack' ? calculateTimeAttackPoints(newState.knowledgeStreak.multiplier) : 0),
+          },
+        };
+      }
+
+      // Abilities of a surviving enemy resolve at the end of every turn
+      if (currentEnemy.hp > 0) {
+        const turn = resolveEnemyTurn(currentEnemy, newState.playerStatus, effectiveStats.maxHp.total);
+        currentEnemy = turn.enemy;
+        newState.playerStatus = turn.playerStatus;
+        if (turn.poisonDamage > 0) {
+          newState.playerStats.hp = Math.max(0, newState.playerStats.hp - turn.poisonDamage);
+          newState.statistics.totalDamageTaken += turn.poisonDamage;
+        }
+        newState.combatLog = [...newState.combatLog, ...turn.log];
+      }
+
+      newState.currentEnemy = currentEnemy;
+
       // Check if enemy is defeated
-      if (newState.currentEnemy.hp <= 0) {
-        const coinReward = Math.floor((10 + newState.zone * 2) * newState.knowledgeStreak.multiplier);
-        const gemReward = Math.floor((1 + Math.floor(newState.zone / 5)) * newState.knowledgeStreak.multiplier);
+      if (currentEnemy.hp <= 0) {
+        const run = newState.gameMode.activeRun;
+        const runRewardMultiplier = getRunRewardMultiplier(run);
+        const coinReward = Math.floor((10 + newState.zone * 2) * newState.knowledgeStreak.multiplier * prestigeMultipliers.coins * skillEffects.rewardMultiplier * runRewardMultiplier * modeModifiers.coinReward * newState.multipliers.coins);
+        const gemReward = Math.floor((1 + Math.floor(newState.zone / 5)) * newState.knowledgeStreak.multiplier * prestigeMultipliers.gems * skillEffects.rewardMultiplier * runRewardMultiplier * modeModifiers.gemReward * newState.multipliers.gems);
+
+        newState.progression = addExperience(newState.progression, calculateVictoryExperience(newState.zone), xpSurgeMultiplier);
+
+        if (skillEffects.victoryHealPercent > 0 && !isSurvivalRun) {
+          newState.playerStats = {
+            ...newState.playerStats,
+            hp: Math.min(effectiveStats.maxHp.total, newState.playerStats.hp + Math.floor(effectiveStats.maxHp.total * skillEffects.victoryHealPercent)),
+          };
+        }
 
         newState.coins += coinReward;
         newState.gems += gemReward;
-        newState.zone += 1;
-        newState.inCombat = false;
-        newState.currentEnemy = null;
+        const defeatedBoss = !!enemy.isBoss;
+        // Poison ends with the enemy that inflicted it
+        newState.playerStatus = createInitialGameState().playerStatus;
+        // Boss Rush keeps the zone; bosses scale with bossProgress instead
+        if (run?.mode !== 'boss') {
+          newState.zone += 1;
+        }
         newState.combatLog = [...newState.combatLog, `Victory! +${coinReward} coins, +${gemReward} gems`];
 
-        // Reset adventure skills
-        newState.adventureSkills = {
-          selectedSkill: null,
-          availableSkills: [],
-          showSelectionModal: false,
-          skillEffects: {
-            skipCardUsed: false,
-            metalShieldUsed: false,
-            dodgeUsed: false,
-            truthLiesActive: false,
-            lightningChainActive: false,
-            rampActive: false,
-          },
-        };
+        const loot = rollEnemyLoot(enemy, newState.lootPity, newState.skills, new Date());
+        newState.lootPity = loot.pity;
+        if (loot.item) {
+          const drop = loot.item;
+          newState.inventory = isWeapon(drop)
+            ? { ...newState.inventory, weapons: [...newState.inventory.weapons, drop] }
+            : { ...newState.inventory, armor: [...newState.inventory.armor, drop] };
+          newState.collectionBook = addToCollectionBook(newState.collectionBook, drop);
+          newState.statistics.itemsCollected += 1;
+          newState.combatLog = [...newState.combatLog, `${enemy.name} dropped ${drop.rarity} ${drop.name}!${loot.fromPity ? ' (pity)' : ''}`];
+        }
+
+        if (run) {
+          newState.gameMode = {
+            ...newState.gameMode,
+            bossProgress: newState.gameMode.bossProgress + (defeatedBoss ? 1 : 0),
+            activeRun: {
+              ...run,
+              enemiesDefeated: run.enemiesDefeated + 1,
+              score: run.score + (run.mode === 'timeAttack' ? TIME_ATTACK_VICTORY_POINTS : 1),
+              coinsEarned: run.coinsEarned + coinReward,
+              gemsEarned: run.gemsEarned + gemReward,
+            },
+          };
 
-        // Check for premium unlock
-        if (newState.zone >= 50) {
-          newState.isPremium = true;
+          // Runs chain straight into the next enemy
+          const nextEnemy = generateRunEnemy(newState.gameMode, newState.zone);
+          newState.currentEnemy = nextEnemy;
+          newState.combatLog = [...newState.combatLog, `A ${nextEnemy.name} appears!`];
+        } else {
+          newState.inCombat = false;
+          newState.currentEnemy = null;
+
+          // Reset adventure skills
+          newState.adventureSkills = {
+            selectedSkill: null,
+            availableSkills: [],
+            showSelectionModal: false,
+            skillEffects: {
+              skipCardUsed: false,
+              metalShieldUsed: false,
+              dodgeUsed: false,
+              truthLiesActive: false,
+              lightningChainActive: false,
+              rampActive: false,
+              statMultipliers: { atk: 1, def: 1, hp: 1 },
+            },
+          };
         }
 
         newState.statistics.totalVictories += 1;
@@ -704,12 +1088,21 @@ export const useGameState = () => {
         // Metal shield auto-activation
         if (newState.adventureSkills.selectedSkill?.type === 'metal_shield' && !newState.adventureSkills.skillEffects.metalShieldUsed) {
           newState.playerStats.hp = 1;
-          newState.playerStats.atk = Math.floor(newState.playerStats.atk * 0.7);
+          newState.adventureSkills.skillEffects.statMultipliers = {
+            ...newState.adventureSkills.skillEffects.statMultipliers,
+            atk: newState.adventureSkills.skillEffects.statMultipliers.atk * 0.7,
+          };
           newState.adventureSkills.skillEffects.metalShieldUsed = true;
           newState.combatLog = [...newState.combatLog, `Metal Shield activated! Sacrificed ATK to survive!`];
-        } else if (!newState.hasUsedRevival) {
+        } else if (newState.gameMode.activeRun?.mode === 'survival' && newState.gameMode.survivalLives > 1) {
+          // Survival spends a life instead of the single revival
+          const survivalLives = newState.gameMode.survivalLives - 1;
+          newState.gameMode = { ...newState.gameMode, survivalLives };
+          newState.playerStats.hp = effectiveStats.maxHp.total;
+          newState.combatLog = [...newState.combatLog, `You lost a life! ${survivalLives} remaining.`];
+        } else if (!newState.hasUsedRevival && newState.gameMode.activeRun?.mode !== 'survival') {
           // Free revival
-          newState.playerStats.hp = newState.playerStats.maxHp;
+          newState.playerStats.hp = effectiveStats.maxHp.total;
           newState.hasUsedRevival = true;
           newState.combatLog = [...newState.combatLog, `You have been revived!`];
           newState.statistics.revivals += 1;
@@ -717,8 +1110,16 @@ export const useGameState = () => {
           // Game over
           newState.inCombat = false;
           newState.currentEnemy = null;
+          newState.playerStatus = createInitialGameState().playerStatus;
           newState.combatLog = [...newState.combatLog, `You have been defeated!`];
           newState.statistics.totalDeaths += 1;
+
+          if (newState.gameMode.activeRun) {
+            newState.gameMode = endModeRun(
+              { ...newState.gameMode, survivalLives: 0 },
+              newState.gameMode.activeRun.mode === 'survival' ? 'Out of lives' : 'Defeated'
+            );
+          }
           
           // Reset adventure skills
           newState.adventureSkills = {
@@ -732,6 +1133,7 @@ export const useGameState = () => {
               truthLiesActive: false,
               lightningChainActive: false,
               rampActive: false,
+              statMultipliers: { atk: 1, def: 1, hp: 1 },
             },
           };
         }
@@ -746,11 +1148,47 @@ export const useGameState = () => {
   }, []);
 
   const setGameMode = useCallback((mode: 'normal' | 'blitz' | 'bloodlust' | 'crazy' | 'survival' | 'timeAttack' | 'boss') => {
+    updateGameState(state => {
+      if (state.inCombat) return state;
+
+      // Switching modes abandons any unfinished run
+      return {
+        ...state,
+        gameMode: {
+          ...state.gameMode,
+          current: mode,
+          activeRun: null,
+          survivalLives: state.gameMode.maxSurvivalLives,
+          timeAttackTimeLeft: TIME_ATTACK_DURATION,
+          bossProgress: 0,
+        },
+      };
+    });
+  }, [updateGameState]);
+
+  // Leaves a Survival / Time Attack / Boss Rush run and banks its rewards so far
+  const retreatFromRun = useCallback(() => {
+    updateGameState(state => {
+      if (!state.gameMode.activeRun) return state;
+
+      return {
+        ...state,
+        inCombat: false,
+        currentEnemy: null,
+        playerStatus: createInitialGameState().playerStatus,
+        combatLog: [...state.combatLog, `You retreated from the run.`],
+        gameMode: endModeRun(state.gameMode, 'Retreated'),
+        adventureSkills: createInitialGameState().adventureSkills,
+      };
+    });
+  }, [updateGameState]);
+
+  const dismissRunSummary = useCallback(() => {
     updateGameState(state => ({
       ...state,
       gameMode: {
         ...state.gameMode,
-        current: mode,
+        lastRunSummary: null,
       },
     }));
   }, [updateGameState]);
@@ -769,49 +1207,85 @@ export const useGameState = () => {
     // Implementation for cheat item generation
   }, []);
 
+  // Returns null when there is no node at (x, y); a hit that doesn't break
+  // the node yet returns zero gems
   const mineGem = useCallback((x: number, y: number): { gems: number; shinyGems: number } | null => {
     let result: { gems: number; shinyGems: number } | null = null;
 
     updateGameState(state => {
-      // Fixed mining logic - check if there's actually a gem node at this position
-      const isShinyNode = Math.random() < 0.05; // 5% chance for shiny nodes
-      
-      if (isShinyNode) {
-        // Shiny node gives 1 shiny gem
-        result = { gems: 0, shinyGems: 1 };
-        return {
-          ...state,
-          shinyGems: state.shinyGems + 1,
-          mining: {
-            ...state.mining,
-            totalShinyGemsMined: state.mining.totalShinyGemsMined + 1,
-          },
-          statistics: {
-            ...state.statistics,
-            shinyGemsEarned: state.statistics.shinyGemsEarned + 1,
-          },
-        };
-      } else {
-        // Normal node gives 1 regular gem
-        result = { gems: 1, shinyGems: 0 };
+      const node = state.mining.nodes.find(n => n.x === x && n.y === y);
+      if (!node) return state;
+
+      const clicks = node.clicks + getMiningPower(state.mining.tools);
+      if (clicks < node.maxClicks) {
+        result = { gems: 0, shinyGems: 0 };
         return {
           ...state,
-          gems: state.gems + 1,
           mining: {
             ...state.mining,
-            totalGemsMined: state.mining.totalGemsMined + 1,
-          },
-          statistics: {
-            ...state.statistics,
-            gemsEarned: state.statistics.gemsEarned + 1,
+            nodes: state.mining.nodes.map(n => n.id === node.id ? { ...n, clicks } : n),
           },
         };
       }
+
+      // Luck Gem makes every gem mined while it lasts shiny, including nodes
+      // that were already on the grid when it was activated
+      const forceShiny = isMenuSkillActive(state.skills, 'luck_gem', new Date());
+      const paysShiny = node.isShiny || forceShiny;
+      const amount = getNodeYield({ ...node, isShiny: paysShiny }, state.mining.depth);
+      const gems = paysShiny ? 0 : amount;
+      const shinyGems = paysShiny ? amount : 0;
+      result = { gems, shinyGems };
+
+      // Every NODES_PER_DEPTH nodes broken takes the mine one level deeper
+      const reachedNextDepth = state.mining.nodesMinedAtDepth + 1 >= NODES_PER_DEPTH && state.mining.depth < MAX_MINE_DEPTH;
+      const mining = fillMiningNodes({
+        ...state.mining,
+        nodes: state.mining.nodes.filter(n => n.id !== node.id),
+        totalGemsMined: state.mining.totalGemsMined + gems,
+        totalShinyGemsMined: state.mining.totalShinyGemsMined + shinyGems,
+        depth: reachedNextDepth ? state.mining.depth + 1 : state.mining.depth,
+        nodesMinedAtDepth: reachedNextDepth ? 0 : state.mining.nodesMinedAtDepth + 1,
+      }, forceShiny);
+
+      return {
+        ...state,
+        gems: state.gems + gems,
+        shinyGems: state.shinyGems + shinyGems,
+        mining,
+        statistics: {
+          ...state.statistics,
+          gemsEarned: state.statistics.gemsEarned + gems,
+          shinyGemsEarned: state.statistics.shinyGemsEarned + shinyGems,
+        },
+      };
     });
 
     return result;
   }, [updateGameState]);
 
+  const buyMiningTool = useCallback((toolId: string): boolean => {
+    let success = false;
+
+    updateGameState(state => {
+      const tool = state.mining.tools.find(t => t.id === toolId);
+      if (!tool || tool.owned || state.coins < tool.cost) return state;
+
+      success = true;
+      return {
+        ...state,
+        coins: state.coins - tool.cost,
+        // Node tools take effect straight away
+        mining: fillMiningNodes({
+          ...state.mining,
+          tools: state.mining.tools.map(t => t.id === toolId ? { ...t, owned: true } : t),
+        }, false),
+      };
+    });
+
+    return success;
+  }, [updateGameState]);
+
   const exchangeShinyGems = useCallback((amount: number): boolean => {
     let success = false;
 
@@ -856,7 +1330,7 @@ export const useGameState = () => {
 
     updateGameState(state => {
       const relic = state.yojefMarket.items.find(r => r.id === relicId);
-      if (!relic || state.gems < relic.cost || state.inventory.equippedRelics.length >= 5) return state;
+      if (!relic || state.gems < relic.cost) return state;
 
       success = true;
       return {
@@ -865,7 +1339,6 @@ export const useGameState = () => {
         inventory: {
           ...state.inventory,
           relics: [...state.inventory.relics, relic],
-          equippedRelics: [...state.inventory.equippedRelics, relic],
         },
         yojefMarket: {
           ...state.yojefMarket,
@@ -877,6 +1350,24 @@ export const useGameState = () => {
     return success;
   }, [updateGameState]);
 
+  const rerollRelics = useCallback((): boolean => {
+    let success = false;
+
+    updateGameState(state => {
+      const cost = getYojefRerollCost(state.yojefMarket);
+      if (state.gems < cost) return state;
+
+      success = true;
+      return {
+        ...state,
+        gems: state.gems - cost,
+        yojefMarket: rerollYojefMarket(state.yojefMarket, getRelicQuality(state.zone, state.progression.prestigeLevel)),
+      };
+    });
+
+    return success;
+  }, [updateGameState]);
+
   const upgradeRelic = useCallback((relicId: string) => {
     updateGameState(state => {
       const relic = state.inventory.relics.find(r => r.id === relicId);
@@ -913,7 +1404,7 @@ export const useGameState = () => {
   const equipRelic = useCallback((relicId: string) => {
     updateGameState(state => {
       const relic = state.inventory.relics.find(r => r.id === relicId);
-      if (!relic || state.inventory.equippedRelics.length >= 5 || state.inventory.equippedRelics.some(r => r.id === relicId)) return state;
+      if (!relic || state.inventory.equippedRelics.length >= MAX_EQUIPPED_RELICS || state.inventory.equippedRelics.some(r => r.id === relicId)) return state;
 
       return {
         ...state,
@@ -936,12 +1427,70 @@ export const useGameState = () => {
   }, [updateGameState]);
 
   const sellRelic = useCallback((relicId: string) => {
+    updateGameState(state => {
+      const relic = state.inventory.relics.find(r => r.id === relicId);
+      if (!relic) return state;
+
+      return {
+        ...state,
+        gems: state.gems + getRelicSellValue(relic),
+        inventory: {
+          ...state.inventory,
+          relics: state.inventory.relics.filter(r => r.id !== relicId),
+          equippedRelics: state.inventory.equippedRelics.filter(r => r.id !== relicId),
+          relicLoadouts: removeRelicFromLoadouts(state.inventory.relicLoadouts, relicId),
+        },
+      };
+    });
+  }, [updateGameState]);
+
+  // Saves the currently equipped relics under a name
+  const saveRelicLoadout = useCallback((name: string): boolean => {
+    let success = false;
+
+    updateGameState(state => {
+      const trimmedName = name.trim();
+      if (!trimmedName || state.inventory.relicLoadouts.length >= MAX_RELIC_LOADOUTS) return state;
+
+      success = true;
+      return {
+        ...state,
+        inventory: {
+          ...state.inventory,
+          relicLoadouts: [...state.inventory.relicLoadouts, createRelicLoadout(trimmedName, state.inventory.equippedRelics)],
+        },
+      };
+    });
+
+    return success;
+  }, [updateGameState]);
+
+  const equipRelicLoadout = useCallback((loadoutId: string): boolean => {
+    let success = false;
+
+    updateGameState(state => {
+      const loadout = state.inventory.relicLoadouts.find(l => l.id === loadoutId);
+      if (!loadout || state.inCombat) return state;
+
+      success = true;
+      return {
+        ...state,
+        inventory: {
+          ...state.inventory,
+          equippedRelics: getLoadoutRelics(state.inventory, loadout),
+        },
+      };
+    });
+
+    return success;
+  }, [updateGameState]);
+
+  const deleteRelicLoadout = useCallback((loadoutId: string) => {
     updateGameState(state => ({
       ...state,
       inventory: {
         ...state.inventory,
-        relics: state.inventory.relics.filter(r => r.id !== relicId),
-        equippedRelics: state.inventory.equippedRelics.filter(r => r.id !== relicId),
+        relicLoadouts: state.inventory.relicLoadouts.filter(l => l.id !== loadoutId),
       },
     }));
   }, [updateGameState]);
@@ -950,20 +1499,44 @@ export const useGameState = () => {
     let success = false;
 
     updateGameState(state => {
-      if (!state.dailyRewards.availableReward) return state;
+      // Re-check the day first so a reward left open past a missed day can't
+      // be claimed on top of a broken streak
+      const now = new Date();
+      const dailyRewards = refreshDailyRewards(state.dailyRewards, now);
+      const reward = dailyRewards.availableReward;
+      if (!reward) return state;
 
       success = true;
-      const reward = state.dailyRewards.availableReward;
+      const items = reward.items || [];
+      const weapons = items.filter(isWeapon);
+      const armor = items.filter((item): item is Armor => !isWeapon(item));
+
+
+      const currentStreak = dailyRewards.currentStreak + 1;
 
       return {
         ...state,
         coins: state.coins + reward.coins,
         gems: state.gems + reward.gems,
+        inventory: {
+          ...state.inventory,
+          weapons: [...state.inventory.weapons, ...weapons],
+          armor: [...state.inventory.armor, ...armor],
+        },
+        collectionBook: items.reduce(addToCollectionBook, state.collectionBook),
         dailyRewards: {
-          ...state.dailyRewards,
+          ...dailyRewards,
+          currentStreak,
+          maxStreak: Math.max(dailyRewards.maxStreak, currentStreak),
           availableReward: null,
-          lastClaimDate: new Date(),
-          rewardHistory: [...state.dailyRewards.rewardHistory, { ...reward, claimed: true, claimDate: new Date() }],
+          lastClaimDate: now,
+          rewardHistory: [...dailyRewards.rewardHistory, { ...reward, claimed: true, claimDate: now }],
+        },
+        statistics: {
+          ...state.statistics,
+          coinsEarned: state.statistics.coinsEarned + reward.coins,
+          gemsEarned: state.statistics.gemsEarned + reward.gems,
+          itemsCollected: state.statistics.itemsCollected + items.length,
         },
       };
     });
@@ -971,15 +1544,78 @@ export const useGameState = () => {
     return success;
   }, [updateGameState]);
 
+  const setDailyResetHour = useCallback((resetHour: number) => {
+    updateGameState(state => ({
+      ...state,
+      dailyRewards: refreshDailyRewards({ ...state.dailyRewards, resetHour }, new Date()),
+    }));
+  }, [updateGameState]);
+
   const upgradeSkill = useCallback((skillId: string): boolean => {
-    // Implementation for skill upgrades
-    return false;
-  }, []);
+    let success = false;
+
+    updateGameState(state => {
+      const skill = skillDefinitions.find(s => s.id === skillId);
+      if (!skill) return state;
+
+      const currentLevel = getSkillLevel(state.progression, skillId);
+      if (currentLevel >= skill.maxLevel || state.progression.skillPoints < skill.cost) return state;
+
+      success = true;
+      return {
+        ...state,
+        progression: {
+          ...state.progression,
+          skillPoints: state.progression.skillPoints - skill.cost,
+          unlockedSkills: [...state.progression.unlockedSkills, skillId],
+        },
+      };
+    });
+
+    return success;
+  }, [updateGameState]);
 
   const prestige = useCallback((): boolean => {
-    // Implementation for prestige system
-    return false;
-  }, []);
+    let success = false;
+
+    updateGameState(state => {
+      if (state.inCombat || !canPrestige(state.zone)) return state;
+
+      success = true;
+      const earnedPoints = calculatePrestigePoints(state.zone, state.coins, state.research.totalSpent);
+      return applyPrestigeReset(state, createInitialGameState(), earnedPoints);
+    });
+
+    return success;
+  }, [updateGameState]);
+
+  const purchasePrestigeUpgrade = useCallback((upgradeId: string): boolean => {
+    let success = false;
+
+    updateGameState(state => {
+      const upgrade = prestigeUpgradeDefinitions.find(u => u.id === upgradeId);
+      if (!upgrade) return state;
+
+      const currentLevel = getPrestigeUpgradeLevel(state.progression, upgradeId);
+      const cost = getPrestigeUpgradeCost(upgrade, currentLevel);
+      if (currentLevel >= upgrade.maxLevel || state.progression.prestigePoints < cost) return state;
+
+      success = true;
+      return {
+        ...state,
+        progression: {
+          ...state.progression,
+          prestigePoints: state.progression.prestigePoints - cost,
+          prestigeUpgrades: {
+            ...state.progression.prestigeUpgrades,
+            [upgradeId]: currentLevel + 1,
+          },
+        },
+      };
+    });
+
+    return success;
+  }, [updateGameState]);
 
   const claimOfflineRewards = useCallback(() => {
     updateGameState(state => ({
@@ -991,10 +1627,56 @@ export const useGameState = () => {
         offlineCoins: 0,
         offlineGems: 0,
         offlineTime: 0,
+        breakdown: createInitialGameState().offlineProgress.breakdown,
       },
     }));
   }, [updateGameState]);
 
+  const dismissNotification = useCallback((notificationId: string) => {
+    updateGameState(state => ({
+      ...state,
+      notificationQueue: state.notificationQueue.filter(n => n.id !== notificationId),
+    }));
+  }, [updateGameState]);
+
+  const repairItem = useCallback((itemId: string, type: 'weapon' | 'armor'): boolean => {
+    let success = false;
+
+    updateGameState(state => {
+      const items: (Weapon | Armor)[] = type === 'weapon' ? state.inventory.weapons : state.inventory.armor;
+      const item = items.find(i => i.id === itemId);
+      if (!item || !isItemDamaged(item)) return state;
+
+      const cost = getRepairCost(item);
+      if (state.coins < cost) return state;
+
+      success = true;
+      return {
+        ...state,
+        coins: state.coins - cost,
+        inventory: repairInventoryItems(state.inventory, [itemId], type),
+      };
+    });
+
+    return success;
+  }, [updateGameState]);
+
+  const bulkRepair = useCallback((itemIds: string[], type: 'weapon' | 'armor') => {
+    updateGameState(state => {
+      const items: (Weapon | Armor)[] = type === 'weapon' ? state.inventory.weapons : state.inventory.armor;
+      const itemsToRepair = items.filter(i => itemIds.includes(i.id) && isItemDamaged(i));
+      const totalCost = getTotalRepairCost(itemsToRepair);
+
+      if (itemsToRepair.length === 0 || state.coins < totalCost) return state;
+
+      return {
+        ...state,
+        coins: state.coins - totalCost,
+        inventory: repairInventoryItems(state.inventory, itemsToRepair.map(i => i.id), type),
+      };
+    });
+  }, [updateGameState]);
+
   const bulkSell = useCallback((itemIds: string[], type: 'weapon' | 'armor') => {
     updateGameState(state => {
       if (type === 'weapon') {
@@ -1094,6 +1776,7 @@ export const useGameState = () => {
           isPlanted: true,
           plantedAt: new Date(),
           lastWatered: new Date(),
+          lastTickAt: new Date(),
           waterHoursRemaining: 24,
         },
       };
@@ -1109,13 +1792,18 @@ export const useGameState = () => {
       const cost = (hours / 24) * state.gardenOfGrowth.waterCost;
       if (state.coins < cost) return state;
 
+      // Settle growth up to now so the new water is not credited retroactively
+      const now = new Date();
+      const garden = advanceGarden(state.gardenOfGrowth, now);
+
       success = true;
       return {
         ...state,
         coins: state.coins - cost,
         gardenOfGrowth: {
-          ...state.gardenOfGrowth,
-          waterHoursRemaining: state.gardenOfGrowth.waterHoursRemaining + hours,
+          ...garden,
+          lastWatered: now,
+          waterHoursRemaining: garden.waterHoursRemaining + hours,
         },
       };
     });
@@ -1133,6 +1821,40 @@ export const useGameState = () => {
     }));
   }, [updateGameState]);
 
+  // Replaces any earlier import of the same pack id
+  const importQuestionPack = useCallback((pack: QuestionPack) => {
+    updateGameState(state => ({
+      ...state,
+      questionPacks: {
+        ...state.questionPacks,
+        imported: [...state.questionPacks.imported.filter(p => p.id !== pack.id), pack],
+      },
+    }));
+  }, [updateGameState]);
+
+  const setQuestionPackEnabled = useCallback((packId: string, enabled: boolean) => {
+    updateGameState(state => {
+      const disabledPackIds = state.questionPacks.disabledPackIds.filter(id => id !== packId);
+      return {
+        ...state,
+        questionPacks: {
+          ...state.questionPacks,
+          disabledPackIds: enabled ? disabledPackIds : [...disabledPackIds, packId],
+        },
+      };
+    });
+  }, [updateGameState]);
+
+  const deleteQuestionPack = useCallback((packId: string) => {
+    updateGameState(state => ({
+      ...state,
+      questionPacks: {
+        imported: state.questionPacks.imported.filter(p => p.id !== packId),
+        disabledPackIds: state.questionPacks.disabledPackIds.filter(id => id !== packId),
+      },
+    }));
+  }, [updateGameState]);
+
   const addCoins = useCallback((amount: number) => {
     updateGameState(state => ({
       ...state,
@@ -1221,6 +1943,10 @@ export const useGameState = () => {
   return {
     gameState,
     isLoading,
+    loadError,
+    restoreBackup,
+    getBackupSave,
+    startNewGameAfterLoadError,
     equipWeapon,
     equipArmor,
     upgradeWeapon,
@@ -1229,30 +1955,45 @@ export const useGameState = () => {
     sellArmor,
     upgradeResearch,
     openChest,
-    purchaseMythical,
+    purchaseMultiplier,
     startCombat,
     attack,
     resetGame,
     setGameMode,
+    retreatFromRun,
+    dismissRunSummary,
     toggleCheat,
     generateCheatItem,
     mineGem,
+    buyMiningTool,
     exchangeShinyGems,
     discardItem,
     purchaseRelic,
+    rerollRelics,
     upgradeRelic,
     equipRelic,
     unequipRelic,
     sellRelic,
+    saveRelicLoadout,
+    equipRelicLoadout,
+    deleteRelicLoadout,
     claimDailyReward,
+    setDailyResetHour,
     upgradeSkill,
     prestige,
+    purchasePrestigeUpgrade,
     claimOfflineRewards,
+    dismissNotification,
+    repairItem,
+    bulkRepair,
     bulkSell,
     bulkUpgrade,
     plantSeed,
     buyWater,
     updateSettings,
+    importQuestionPack,
+    setQuestionPackEnabled,
+    deleteQuestionPack,
     addCoins,
     addGems,
     teleportToZone,
@@ -1,9 +1,11 @@
 export interface GameState {
+  saveVersion: number;
   coins: number;
   gems: number;
   shinyGems: number;
   zone: number;
   playerStats: PlayerStats;
+  playerStatus: PlayerStatus;
   inventory: Inventory;
   currentEnemy: Enemy | null;
   inCombat: boolean;
@@ -19,6 +21,12 @@ export interface GameState {
   mining: Mining;
   yojefMarket: YojefMarket;
   playerTags: PlayerTag[];
+  notificationQueue: UnlockNotification[];
+  lootPity: LootPity;
+  questionPacks: QuestionPacks;
+  questionHistory: QuestionHistory;
+  difficultyRatings: DifficultyRatings;
+  multipliers: Multipliers;
   dailyRewards: DailyRewards;
   progression: ProgressionSystem;
   offlineProgress: OfflineProgress;
@@ -39,10 +47,51 @@ export interface PlayerStats {
   baseHp: number;
 }
 
+// Effects on the player that last for the current fight
+export interface PlayerStatus {
+  poisonTurns: number;
+}
+
+// One line of a stat breakdown: flat sources only carry points, multipliers
+// also record the factor that produced them
+export interface StatSource {
+  source: string;
+  points: number;
+  multiplier?: number;
+}
+
+export interface EffectiveStat {
+  total: number;
+  sources: StatSource[];
+}
+
+export interface EffectiveStats {
+  atk: EffectiveStat;
+  def: EffectiveStat;
+  maxHp: EffectiveStat;
+}
+
 export interface Research {
+  // Total levels bought across all nodes
   level: number;
   totalSpent: number;
-  availableUpgrades: ('atk' | 'def' | 'hp')[];
+  // Research node id -> level
+  nodes: Record<string, number>;
+}
+
+export type ResearchBranch = 'offense' | 'defense' | 'fortune';
+
+export interface ResearchNode {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  branch: ResearchBranch;
+  maxLevel: number;
+  baseCost: number;
+  effectPerLevel: number;
+  // Levels of other nodes needed before the first level can be bought
+  requires: { nodeId: string; level: number }[];
 }
 
 export interface Inventory {
@@ -52,6 +101,13 @@ export interface Inventory {
   currentWeapon: Weapon | null;
   currentArmor: Armor | null;
   equippedRelics: RelicItem[];
+  relicLoadouts: RelicLoadout[];
+}
+
+export interface RelicLoadout {
+  id: string;
+  name: string;
+  relicIds: string[];
 }
 
 export interface Weapon {
@@ -103,13 +159,15 @@ export interface Enemy {
   atk: number;
   def: number;
   zone: number;
-  isPoisoned?: boolean;
-  poisonTurns?: number;
   canDropItems?: boolean;
   isBoss?: boolean;
-  specialAbility?: string;
+  specialAbility?: EnemyAbility;
+  shield?: number;
+  isEnraged?: boolean;
 }
 
+export type EnemyAbility = 'poison' | 'regen' | 'shield' | 'enrage' | 'timer';
+
 export interface ChestReward {
   type: 'weapon' | 'armor' | 'gems';
   items?: (Weapon | Armor)[];
@@ -146,6 +204,20 @@ export interface CollectionBook {
   };
 }
 
+// Permanent Pokyeg Market multipliers; each level is the multiplier itself
+export interface Multipliers {
+  coins: number;
+  gems: number;
+  atk: number;
+  def: number;
+  hp: number;
+}
+
+export interface LootPity {
+  dropsSinceLegendary: number;
+  dropsSinceMythical: number;
+}
+
 export interface KnowledgeStreak {
   current: number;
   best: number;
@@ -161,6 +233,38 @@ export interface GameMode {
   timeAttackScore: number;
   timeAttackTimeLeft: number;
   bossProgress: number;
+  activeRun: ModeRun | null;
+  lastRunSummary: ModeRunSummary | null;
+}
+
+// Multipliers a game mode applies to combat; 1 means unchanged
+export interface GameModeModifiers {
+  questionTime: number; // seconds per question
+  playerAtk: number;
+  playerDef: number;
+  playerHp: number;
+  enemyHp: number;
+  enemyAtk: number;
+  enemyDef: number;
+  coinReward: number;
+  gemReward: number;
+}
+
+// A single Survival, Time Attack or Boss Rush attempt
+export interface ModeRun {
+  mode: 'survival' | 'timeAttack' | 'boss';
+  startZone: number;
+  enemiesDefeated: number;
+  correctAnswers: number;
+  wrongAnswers: number;
+  score: number;
+  coinsEarned: number;
+  gemsEarned: number;
+}
+
+export interface ModeRunSummary extends ModeRun {
+  outcome: string;
+  isNewBest: boolean;
 }
 
 export interface Statistics {
@@ -202,6 +306,20 @@ export interface CheatSettings {
 export interface Mining {
   totalGemsMined: number;
   totalShinyGemsMined: number;
+  nodes: GemNode[];
+  tools: MiningTool[];
+  depth: number;
+  nodesMinedAtDepth: number;
+}
+
+export interface GemNode {
+  id: string;
+  x: number;
+  y: number;
+  clicks: number;
+  maxClicks: number;
+  hardness: number;
+  isShiny: boolean;
 }
 
 export interface MiningTool {
@@ -209,6 +327,7 @@ export interface MiningTool {
   name: string;
   description: string;
   cost: number;
+  kind: 'power' | 'nodes'; // stronger clicks or extra nodes
   efficiency: number;
   owned: boolean;
 }
@@ -217,6 +336,8 @@ export interface YojefMarket {
   items: RelicItem[];
   lastRefresh: Date;
   nextRefresh: Date;
+  slots: number;
+  rerollsSinceRefresh: number;
 }
 
 export interface PlayerTag {
@@ -229,12 +350,21 @@ export interface PlayerTag {
   color: string;
 }
 
+export interface UnlockNotification {
+  id: string;
+  kind: 'achievement' | 'tag';
+  title: string;
+  description: string;
+  icon: string;
+}
+
 export interface DailyRewards {
   lastClaimDate: Date | null;
   currentStreak: number;
   maxStreak: number;
   availableReward: DailyReward | null;
   rewardHistory: DailyReward[];
+  resetHour: number; // local hour (0-23) when a new reward day starts
 }
 
 export interface DailyReward {
@@ -255,9 +385,51 @@ export interface ProgressionSystem {
   unlockedSkills: string[];
   prestigeLevel: number;
   prestigePoints: number;
+  prestigeUpgrades: {
+    [upgradeId: string]: number;
+  };
   masteryLevels: {
     [category: string]: number;
   };
+  // Lifetime mastery XP per category; masteryLevels follows from it
+  masteryExperience: {
+    [category: string]: number;
+  };
+}
+
+export type MasteryPerkType = 'damage' | 'time' | 'heal' | 'coins' | 'xp';
+
+export interface MasteryPerk {
+  category: string;
+  name: string;
+  type: MasteryPerkType;
+  // Effect per mastery level: a fraction for damage, heal and xp, seconds
+  // for time and coins for coins
+  perLevel: number;
+}
+
+export interface MasteryMilestone {
+  level: number;
+  coins: number;
+  gems: number;
+}
+
+export interface ProgressionSkill {
+  id: string;
+  name: string;
+  description: string;
+  maxLevel: number;
+  cost: number;
+}
+
+export interface PrestigeUpgrade {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  maxLevel: number;
+  baseCost: number;
+  effectPerLevel: number;
 }
 
 export interface OfflineProgress {
@@ -266,12 +438,22 @@ export interface OfflineProgress {
   offlineGems: number;
   offlineTime: number;
   maxOfflineHours: number;
+  breakdown: OfflineEarningsBreakdown;
+}
+
+export interface OfflineEarningsBreakdown {
+  zoneCoins: number;
+  researchCoins: number;
+  gardenCoins: number;
+  zoneGems: number;
+  gardenGems: number;
 }
 
 export interface GardenOfGrowth {
   isPlanted: boolean;
   plantedAt: Date | null;
   lastWatered: Date | null;
+  lastTickAt: Date | null;
   waterHoursRemaining: number;
   growthCm: number;
   totalGrowthBonus: number;
@@ -285,6 +467,9 @@ export interface GameSettings {
   darkMode: boolean;
   language: 'en' | 'es' | 'fr' | 'de' | 'pt' | 'it' | 'ru' | 'ja' | 'ko' | 'zh';
   notifications: boolean;
+  // 'adaptive' matches questions to the player's ratings; 'zone' uses the
+  // fixed zone thresholds
+  questionDifficulty: 'adaptive' | 'zone';
 }
 
 export interface SkillsSystem {
@@ -316,6 +501,8 @@ export interface AdventureSkillsState {
     truthLiesActive: boolean;
     lightningChainActive: boolean;
     rampActive: boolean;
+    // Stat changes from Risker, Ramp and Metal Shield for the current fight
+    statMultipliers: { atk: number; def: number; hp: number };
   };
 }
 
@@ -334,4 +521,49 @@ export interface TriviaQuestion {
   correctAnswer: number | string;
   category: string;
   difficulty: 'easy' | 'medium' | 'hard';
+  locale?: string;
+  // Other accepted spellings for type-answer questions
+  aliases?: string[];
+  // How far off a numeric answer may be and still count
+  numericTolerance?: number;
+}
+
+export interface QuestionPack {
+  id: string;
+  name: string;
+  // The pack author's own content version, shown so players can tell updates apart
+  version: number;
+  locale: string;
+  author?: string;
+  questions: TriviaQuestion[];
+}
+
+// Spaced-repetition record for one question. lastSeen and dueAt are counted
+// in questions answered (QuestionHistory.answered), not wall-clock time, so
+// the schedule follows how much the player actually plays.
+export interface QuestionHistoryEntry {
+  lastSeen: number;
+  timesCorrect: number;
+  timesWrong: number;
+  // Leitner box: 0 after a miss, one higher after each correct answer
+  box: number;
+  dueAt: number;
+}
+
+export interface QuestionHistory {
+  answered: number;
+  entries: Record<string, QuestionHistoryEntry>;
+}
+
+// Elo-style ratings: one per category for the player, one per question.
+// Questions without an entry start from their difficulty's rating.
+export interface DifficultyRatings {
+  categories: Record<string, number>;
+  questions: Record<string, number>;
+}
+
+export interface QuestionPacks {
+  imported: QuestionPack[];
+  // Includes the built-in pack when the player turns it off
+  disabledPackIds: string[];
 }
\ No newline at end of file
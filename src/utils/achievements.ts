@@ -131,103 +131,125 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
   }
 ];
 
+// Current progress towards an achievement and whether it has been earned
+const evaluateAchievement = (id: string, gameState: GameState): { progress: number; shouldUnlock: boolean } => {
+  let progress = 0;
+  let shouldUnlock = false;
+
+  switch (id) {
+    case 'first_victory':
+      progress = Math.min(gameState.statistics.totalVictories, 1);
+      shouldUnlock = gameState.statistics.totalVictories >= 1;
+      break;
+    case 'zone_master_10':
+      progress = Math.min(gameState.zone, 10);
+      shouldUnlock = gameState.zone >= 10;
+      break;
+    case 'zone_master_25':
+      progress = Math.min(gameState.zone, 25);
+      shouldUnlock = gameState.zone >= 25;
+      break;
+    case 'zone_master_50':
+      progress = Math.min(gameState.zone, 50);
+      shouldUnlock = gameState.zone >= 50;
+      break;
+    case 'collector_25':
+      progress = Math.min(gameState.collectionBook.totalWeaponsFound + gameState.collectionBook.totalArmorFound, 25);
+      shouldUnlock = progress >= 25;
+      break;
+    case 'collector_50':
+      progress = Math.min(gameState.collectionBook.totalWeaponsFound + gameState.collectionBook.totalArmorFound, 50);
+      shouldUnlock = progress >= 50;
+      break;
+    case 'scholar_tier_3':
+      progress = Math.min(gameState.research.level, 3);
+      shouldUnlock = gameState.research.level >= 3;
+      break;
+    case 'scholar_tier_5':
+      progress = Math.min(gameState.research.level, 5);
+      shouldUnlock = gameState.research.level >= 5;
+      break;
+    case 'streak_master_10':
+      progress = Math.min(gameState.knowledgeStreak.best, 10);
+      shouldUnlock = gameState.knowledgeStreak.best >= 10;
+      break;
+    case 'streak_master_25':
+      progress = Math.min(gameState.knowledgeStreak.best, 25);
+      shouldUnlock = gameState.knowledgeStreak.best >= 25;
+      break;
+    case 'wealthy_1000':
+      progress = Math.min(gameState.statistics.coinsEarned, 1000);
+      shouldUnlock = gameState.statistics.coinsEarned >= 1000;
+      break;
+    case 'wealthy_5000':
+      progress = Math.min(gameState.statistics.coinsEarned, 5000);
+      shouldUnlock = gameState.statistics.coinsEarned >= 5000;
+      break;
+    case 'chest_opener_10':
+      progress = Math.min(gameState.statistics.chestsOpened, 10);
+      shouldUnlock = gameState.statistics.chestsOpened >= 10;
+      break;
+    case 'accuracy_master': {
+      const totalAnswered = gameState.statistics.totalQuestionsAnswered;
+      if (totalAnswered >= 50) {
+        const accuracy = gameState.statistics.correctAnswers / totalAnswered;
+        progress = accuracy >= 0.9 ? 50 : 0;
+        shouldUnlock = accuracy >= 0.9;
+      }
+      break;
+    }
+    case 'legendary_finder':
+      progress = gameState.collectionBook.rarityStats.legendary > 0 ? 1 : 0;
+      shouldUnlock = progress >= 1;
+      break;
+    case 'mythical_finder':
+      progress = gameState.collectionBook.rarityStats.mythical > 0 ? 1 : 0;
+      shouldUnlock = progress >= 1;
+      break;
+  }
+
+  return { progress, shouldUnlock };
+};
+
+// Returns achievements that should unlock now; does not modify the state
 export const checkAchievements = (gameState: GameState): Achievement[] => {
   const newUnlocks: Achievement[] = [];
-  
+
   achievementDefinitions.forEach(def => {
     const existing = gameState.achievements.find(a => a.id === def.id);
     if (existing?.unlocked) return;
 
-    let progress = 0;
-    let shouldUnlock = false;
-
-    switch (def.id) {
-      case 'first_victory':
-        progress = gameState.zone > 1 ? 1 : 0;
-        break;
-      case 'zone_master_10':
-        progress = Math.min(gameState.zone, 10);
-        shouldUnlock = gameState.zone >= 10;
-        break;
-      case 'zone_master_25':
-        progress = Math.min(gameState.zone, 25);
-        shouldUnlock = gameState.zone >= 25;
-        break;
-      case 'zone_master_50':
-        progress = Math.min(gameState.zone, 50);
-        shouldUnlock = gameState.zone >= 50;
-        break;
-      case 'collector_25':
-        progress = Math.min(gameState.collectionBook.totalWeaponsFound + gameState.collectionBook.totalArmorFound, 25);
-        shouldUnlock = progress >= 25;
-        break;
-      case 'collector_50':
-        progress = Math.min(gameState.collectionBook.totalWeaponsFound + gameState.collectionBook.totalArmorFound, 50);
-        shouldUnlock = progress >= 50;
-        break;
-      case 'scholar_tier_3':
-        const totalResearchLevel3 = gameState.research.atk.level + gameState.research.def.level + gameState.research.hp.level;
-        progress = Math.min(totalResearchLevel3, 3);
-        shouldUnlock = totalResearchLevel3 >= 3;
-        break;
-      case 'scholar_tier_5':
-        const totalResearchLevel5 = gameState.research.atk.level + gameState.research.def.level + gameState.research.hp.level;
-        progress = Math.min(totalResearchLevel5, 5);
-        shouldUnlock = totalResearchLevel5 >= 5;
-        break;
-      case 'streak_master_10':
-        progress = Math.min(gameState.knowledgeStreak.best, 10);
-        shouldUnlock = gameState.knowledgeStreak.best >= 10;
-        break;
-      case 'streak_master_25':
-        progress = Math.min(gameState.knowledgeStreak.best, 25);
-        shouldUnlock = gameState.knowledgeStreak.best >= 25;
-        break;
-      case 'wealthy_1000':
-        progress = Math.min(gameState.statistics.coinsEarned, 1000);
-        shouldUnlock = gameState.statistics.coinsEarned >= 1000;
-        break;
-      case 'wealthy_5000':
-        progress = Math.min(gameState.statistics.coinsEarned, 5000);
-        shouldUnlock = gameState.statistics.coinsEarned >= 5000;
-        break;
-      case 'chest_opener_10':
-        progress = Math.min(gameState.statistics.chestsOpened, 10);
-        shouldUnlock = gameState.statistics.chestsOpened >= 10;
-        break;
-      case 'accuracy_master':
-        const totalAnswered = gameState.statistics.totalQuestionsAnswered;
-        if (totalAnswered >= 50) {
-          const accuracy = gameState.statistics.correctAnswers / totalAnswered;
-          progress = accuracy >= 0.9 ? 50 : 0;
-          shouldUnlock = accuracy >= 0.9;
-        }
-        break;
-      case 'legendary_finder':
-        progress = gameState.collectionBook.rarityStats.legendary > 0 ? 1 : 0;
-        shouldUnlock = progress >= 1;
-        break;
-      case 'mythical_finder':
-        progress = gameState.collectionBook.rarityStats.mythical > 0 ? 1 : 0;
-        shouldUnlock = progress >= 1;
-        break;
-    }
-
-    if (shouldUnlock && !existing?.unlocked) {
+    if (evaluateAchievement(def.id, gameState).shouldUnlock) {
       newUnlocks.push({
         ...def,
         unlocked: true,
         unlockedAt: new Date(),
         progress: def.maxProgress
       });
-    } else if (existing) {
-      existing.progress = progress;
     }
   });
 
   return newUnlocks;
 };
 
+// Refreshes progress on locked achievements. Returns the original array when
+// nothing moved so callers can skip a state update.
+export const updateAchievementProgress = (gameState: GameState): Achievement[] => {
+  let changed = false;
+
+  const achievements = gameState.achievements.map(achievement => {
+    if (achievement.unlocked) return achievement;
+
+    const { progress } = evaluateAchievement(achievement.id, gameState);
+    if (progress === achievement.progress) return achievement;
+
+    changed = true;
+    return { ...achievement, progress };
+  });
+
+  return changed ? achievements : gameState.achievements;
+};
+
 export const initializeAchievements = (): Achievement[] => {
   return achievementDefinitions.map(def => ({
     ...def,
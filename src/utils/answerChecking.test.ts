@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { TriviaQuestion } from '../types/game';
+import { evaluateAnswer, normalizeAnswer, parseNumericAnswer } from './answerChecking';
+
+const typeAnswer = (correctAnswer: string, extra: Partial<TriviaQuestion> = {}): TriviaQuestion => ({
+  id: 'test-question',
+  question: 'Test question',
+  type: 'type-answer',
+  correctAnswer,
+  category: 'Math',
+  difficulty: 'easy',
+  ...extra,
+});
+
+describe('normalizeAnswer', () => {
+  it('ignores case, accents, punctuation and a leading article', () => {
+    expect(normalizeAnswer('  The Café!  ')).toBe('cafe');
+    expect(normalizeAnswer('Washington D.C.')).toBe('washington dc');
+  });
+
+  it('keeps decimal points and drops trailing ones', () => {
+    expect(normalizeAnswer('3.14')).toBe('3.14');
+    expect(normalizeAnswer('1.')).toBe('1');
+  });
+
+  it('spells out ampersands and splits hyphens', () => {
+    expect(normalizeAnswer('Salt & Pepper')).toBe('salt and pepper');
+    expect(normalizeAnswer('twenty-one')).toBe('twenty one');
+  });
+});
+
+describe('parseNumericAnswer', () => {
+  it('reads digits, decimals and thousands separators', () => {
+    expect(parseNumericAnswer('7')).toBe(7);
+    expect(parseNumericAnswer('-2.5')).toBe(-2.5);
+    expect(parseNumericAnswer('1,000')).toBe(1000);
+  });
+
+  it('accepts a trailing decimal point', () => {
+    expect(parseNumericAnswer('1.')).toBe(1);
+  });
+
+  it('reads spelled-out numbers', () => {
+    expect(parseNumericAnswer('seven')).toBe(7);
+    expect(parseNumericAnswer('twenty-one')).toBe(21);
+    expect(parseNumericAnswer('one hundred and five')).toBe(105);
+    expect(parseNumericAnswer('two thousand three hundred')).toBe(2300);
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseNumericAnswer('paris')).toBeNull();
+    expect(parseNumericAnswer('seven dwarfs')).toBeNull();
+    expect(parseNumericAnswer('')).toBeNull();
+  });
+});
+
+describe('evaluateAnswer', () => {
+  it('compares multiple-choice answers by index', () => {
+    const question = typeAnswer('', { type: 'multiple-choice', options: ['a', 'b'], correctAnswer: 1 });
+    expect(evaluateAnswer(question, 1)).toBe('correct');
+    expect(evaluateAnswer(question, 0)).toBe('wrong');
+  });
+
+  it('accepts aliases', () => {
+    const question = typeAnswer('United States', { aliases: ['USA'] });
+    expect(evaluateAnswer(question, 'usa')).toBe('correct');
+  });
+
+  it('forgives small typos and marks bigger ones close', () => {
+    const question = typeAnswer('Shakespeare');
+    expect(evaluateAnswer(question, 'Shakespear')).toBe('correct');
+    expect(evaluateAnswer(question, 'Shaksper')).toBe('close');
+    expect(evaluateAnswer(question, 'Dickens')).toBe('wrong');
+  });
+
+  it('matches numbers written either way', () => {
+    expect(evaluateAnswer(typeAnswer('7'), 'seven')).toBe('correct');
+    expect(evaluateAnswer(typeAnswer('seven'), '7')).toBe('correct');
+    expect(evaluateAnswer(typeAnswer('1'), '1.')).toBe('correct');
+  });
+
+  it('forgives typos in a spelled-out expected number', () => {
+    expect(evaluateAnswer(typeAnswer('seven'), 'sevn')).toBe('correct');
+  });
+
+  it('does not forgive a wrong digit', () => {
+    expect(evaluateAnswer(typeAnswer('1000'), '10000')).toBe('wrong');
+  });
+
+  it('uses the numeric tolerance for correct and close answers', () => {
+    const question = typeAnswer('100', { numericTolerance: 5 });
+    expect(evaluateAnswer(question, '104')).toBe('correct');
+    expect(evaluateAnswer(question, '109')).toBe('close');
+    expect(evaluateAnswer(question, '120')).toBe('wrong');
+  });
+
+  it('treats a blank answer as wrong', () => {
+    expect(evaluateAnswer(typeAnswer('Paris'), '   ')).toBe('wrong');
+  });
+});
@@ -0,0 +1,128 @@
+import { TriviaQuestion } from '../types/game';
+
+export type AnswerResult = 'correct' | 'close' | 'wrong';
+
+// Share of a correct answer's damage and XP that a close answer earns
+export const CLOSE_ANSWER_CREDIT = 0.5;
+
+const numberWords: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50,
+  sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+// Lowercases, strips diacritics and punctuation and collapses whitespace, so
+// "Washington D.C." and "washington dc" compare equal. A leading article is
+// dropped too.
+export const normalizeAnswer = (answer: string): string => {
+  return answer
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/-/g, ' ')
+    .replace(/[^a-z0-9\s.]/g, '')
+    // Dots only survive as decimal points
+    .replace(/\.(?!\d)/g, '')
+    .replace(/(^|\D)\./g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '');
+};
+
+// Reads "7", "7.5", "7.", "1,000" or spelled-out numbers up to the millions
+// ("seven", "twenty one", "one hundred and five"). Returns null otherwise.
+export const parseNumericAnswer = (answer: string): number | null => {
+  const compact = answer.trim().replace(/,/g, '');
+  if (/^-?\d+(\.\d*)?$/.test(compact)) return parseFloat(compact);
+
+  const words = normalizeAnswer(answer).split(' ').filter(w => w && w !== 'and');
+  if (words.length === 0) return null;
+
+  let total = 0;
+  let current = 0;
+  for (const word of words) {
+    if (word in numberWords) {
+      current += numberWords[word];
+    } else if (word === 'hundred') {
+      current = (current || 1) * 100;
+    } else if (word === 'thousand' || word === 'million') {
+      total += (current || 1) * (word === 'thousand' ? 1000 : 1000000);
+      current = 0;
+    } else {
+      return null;
+    }
+  }
+  return total + current;
+};
+
+export const levenshteinDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Typos forgiven for an answer this long: none for short words, where one
+// letter often makes a different word, then one per five characters
+export const getTypoTolerance = (length: number): number => {
+  if (length <= 3) return 0;
+  return Math.max(1, Math.floor(length / 5));
+};
+
+const compareText = (answer: string, expected: string): AnswerResult => {
+  if (answer === expected) return 'correct';
+  // Spaces only matter to readability: "star wars" vs "starwars"
+  if (answer.replace(/ /g, '') === expected.replace(/ /g, '')) return 'correct';
+
+  const distance = levenshteinDistance(answer, expected);
+  const tolerance = getTypoTolerance(expected.length);
+  if (distance <= tolerance) return 'correct';
+  if (expected.length > 3 && distance <= tolerance * 2) return 'close';
+  return 'wrong';
+};
+
+// Numbers within the question's tolerance are correct; within twice the
+// tolerance they are close
+const compareNumbers = (answer: number, expected: number, tolerance: number): AnswerResult => {
+  const difference = Math.abs(answer - expected);
+  if (difference <= tolerance) return 'correct';
+  if (tolerance > 0 && difference <= tolerance * 2) return 'close';
+  return 'wrong';
+};
+
+const bestResult = (results: AnswerResult[]): AnswerResult => {
+  if (results.includes('correct')) return 'correct';
+  if (results.includes('close')) return 'close';
+  return 'wrong';
+};
+
+export const evaluateAnswer = (question: TriviaQuestion, userAnswer: string | number): AnswerResult => {
+  if (question.type === 'multiple-choice') {
+    return userAnswer === question.correctAnswer ? 'correct' : 'wrong';
+  }
+
+  const answer = normalizeAnswer(String(userAnswer));
+  if (!answer) return 'wrong';
+
+  const accepted = [String(question.correctAnswer), ...(question.aliases || [])];
+  const results = accepted.map(expected => {
+    const expectedNumber = parseNumericAnswer(expected);
+    if (expectedNumber === null) return compareText(answer, normalizeAnswer(expected));
+
+    const answerNumber = parseNumericAnswer(String(userAnswer));
+    const numeric = answerNumber === null ? 'wrong' : compareNumbers(answerNumber, expectedNumber, question.numericTolerance || 0);
+    // A spelled-out number also forgives typos ("sevn" for "seven"); digits
+    // don't, since one wrong digit is a different number
+    return /\d/.test(expected) ? numeric : bestResult([numeric, compareText(answer, normalizeAnswer(expected))]);
+  });
+
+  return bestResult(results);
+};
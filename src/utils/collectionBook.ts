@@ -0,0 +1,20 @@
+import { Armor, CollectionBook, Weapon } from '../types/game';
+import { isWeapon } from './equipment';
+
+// Marks the item's name as discovered and counts its rarity
+export const addToCollectionBook = (collectionBook: CollectionBook, item: Weapon | Armor): CollectionBook => {
+  const isNewWeapon = isWeapon(item) && !collectionBook.weapons[item.name];
+  const isNewArmor = !isWeapon(item) && !collectionBook.armor[item.name];
+
+  return {
+    ...collectionBook,
+    weapons: isNewWeapon ? { ...collectionBook.weapons, [item.name]: true } : collectionBook.weapons,
+    armor: isNewArmor ? { ...collectionBook.armor, [item.name]: true } : collectionBook.armor,
+    totalWeaponsFound: collectionBook.totalWeaponsFound + (isNewWeapon ? 1 : 0),
+    totalArmorFound: collectionBook.totalArmorFound + (isNewArmor ? 1 : 0),
+    rarityStats: {
+      ...collectionBook.rarityStats,
+      [item.rarity]: collectionBook.rarityStats[item.rarity] + 1,
+    },
+  };
+};
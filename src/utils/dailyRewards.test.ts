@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { DailyRewards } from '../types/game';
+import { DAILY_REWARD_CYCLE_DAYS, refreshDailyRewards } from './dailyRewards';
+
+// Dates are local time, as the reward day boundary is
+const at = (day: number, hour = 12): Date => new Date(2024, 4, day, hour);
+
+const claimedOn = (date: Date, currentStreak: number, resetHour = 0): DailyRewards => ({
+  lastClaimDate: date,
+  currentStreak,
+  maxStreak: currentStreak,
+  availableReward: null,
+  rewardHistory: [],
+  resetHour,
+});
+
+describe('refreshDailyRewards', () => {
+  it('offers day 1 to a player who has never claimed', () => {
+    const rewards = refreshDailyRewards({ ...claimedOn(at(1), 0), lastClaimDate: null }, at(10));
+    expect(rewards.currentStreak).toBe(0);
+    expect(rewards.availableReward?.day).toBe(1);
+  });
+
+  it('continues the streak the day after a claim', () => {
+    const rewards = refreshDailyRewards(claimedOn(at(9, 20), 3), at(10, 8));
+    expect(rewards.currentStreak).toBe(3);
+    expect(rewards.availableReward?.day).toBe(4);
+  });
+
+  it('starts the cycle over after its last day', () => {
+    const rewards = refreshDailyRewards(claimedOn(at(9), DAILY_REWARD_CYCLE_DAYS), at(10));
+    expect(rewards.currentStreak).toBe(DAILY_REWARD_CYCLE_DAYS);
+    expect(rewards.availableReward?.day).toBe(1);
+  });
+
+  it('offers nothing more on the day of a claim', () => {
+    const claimed = claimedOn(at(10, 1), 3);
+    expect(refreshDailyRewards(claimed, at(10, 23))).toBe(claimed);
+  });
+
+  it('resets the streak after a missed day', () => {
+    const rewards = refreshDailyRewards(claimedOn(at(8), 5), at(10));
+    expect(rewards.currentStreak).toBe(0);
+    expect(rewards.availableReward?.day).toBe(1);
+  });
+
+  it('keeps the reward day open until the reset hour', () => {
+    const claimed = claimedOn(at(10, 10), 3, 6);
+    expect(refreshDailyRewards(claimed, at(11, 5))).toBe(claimed);
+    expect(refreshDailyRewards(claimed, at(11, 7)).availableReward?.day).toBe(4);
+  });
+
+  it('keeps an already offered reward on later refreshes', () => {
+    const first = refreshDailyRewards(claimedOn(at(9), 6), at(10));
+    expect(refreshDailyRewards(first, at(10, 18))).toBe(first);
+  });
+
+  describe('when the clock changes', () => {
+    it('offers nothing if the clock moved back to the day before the claim', () => {
+      const claimed = claimedOn(at(10), 3);
+      expect(refreshDailyRewards(claimed, at(9))).toBe(claimed);
+    });
+
+    it('breaks the streak rather than locking rewards when the claim is further in the future', () => {
+      const rewards = refreshDailyRewards(claimedOn(at(20), 3), at(10));
+      expect(rewards.currentStreak).toBe(0);
+      expect(rewards.availableReward?.day).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { DailyReward, DailyRewards } from '../types/game';
+import { generateArmor, generateWeapon } from './gameUtils';
+
+export const DAILY_REWARD_CYCLE_DAYS = 14;
+export const DEFAULT_DAILY_RESET_HOUR = 0;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const specialRewards: Record<number, { special: string; rarity: string }> = {
+  7: { special: 'Legendary Chest', rarity: 'legendary' },
+  14: { special: 'Mythical Item', rarity: 'mythical' },
+};
+
+// Whole-day index of the reward day `date` falls in. A reward day starts at
+// `resetHour` local time; counting calendar dates instead of elapsed
+// milliseconds keeps DST shifts from moving the boundary.
+export const getRewardDayIndex = (date: Date, resetHour: number): number => {
+  const shifted = new Date(date.getTime() - resetHour * 60 * 60 * 1000);
+  return Math.floor(Date.UTC(shifted.getFullYear(), shifted.getMonth(), shifted.getDate()) / MS_PER_DAY);
+};
+
+export const getNextResetTime = (now: Date, resetHour: number): Date => {
+  const next = new Date(now);
+  next.setHours(resetHour, 0, 0, 0);
+  if (next.getTime() <= now.getTime()) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next;
+};
+
+// What a calendar day pays, without rolling the special-day items
+export const getDayRewardPreview = (day: number): DailyReward => ({
+  day,
+  coins: 50 + day * 25,
+  gems: 5 + Math.floor(day / 2),
+  special: specialRewards[day]?.special,
+  claimed: false,
+});
+
+export const createDailyReward = (day: number): DailyReward => {
+  const reward = getDayRewardPreview(day);
+  const special = specialRewards[day];
+  if (!special) return reward;
+
+  const item = Math.random() < 0.5 ? generateWeapon(false, special.rarity) : generateArmor(false, special.rarity);
+  return { ...reward, items: [item] };
+};
+
+// Compares today against the day of the last claim:
+// - same day, or an earlier day because the clock moved back: nothing to claim
+// - the next day: the streak continues
+// - any later day: a day was missed and the streak breaks
+// A last claim more than a day in the future can only come from a clock that
+// was wrong at claim time, so it is treated as a break rather than locking
+// rewards until the clock catches up.
+export const refreshDailyRewards = (dailyRewards: DailyRewards, now: Date): DailyRewards => {
+  const { lastClaimDate, resetHour } = dailyRewards;
+  const today = getRewardDayIndex(now, resetHour);
+
+  let streakContinues = false;
+  if (lastClaimDate) {
+    const daysSinceClaim = today - getRewardDayIndex(lastClaimDate, resetHour);
+    if (daysSinceClaim === 0 || daysSinceClaim === -1) return dailyRewards;
+    streakContinues = daysSinceClaim === 1;
+  }
+
+  const currentStreak = streakContinues ? dailyRewards.currentStreak : 0;
+  const day = (currentStreak % DAILY_REWARD_CYCLE_DAYS) + 1;
+
+  // Keep an already rolled reward so its items don't change on every refresh
+  if (dailyRewards.availableReward?.day === day && currentStreak === dailyRewards.currentStreak) {
+    return dailyRewards;
+  }
+
+  return {
+    ...dailyRewards,
+    currentStreak,
+    availableReward: createDailyReward(day),
+  };
+};
+
+// Calendar days already claimed in the current 14-day cycle
+export const getClaimedDaysInCycle = (dailyRewards: DailyRewards): number => {
+  if (dailyRewards.availableReward) return dailyRewards.availableReward.day - 1;
+  if (dailyRewards.currentStreak === 0) return 0;
+  return ((dailyRewards.currentStreak - 1) % DAILY_REWARD_CYCLE_DAYS) + 1;
+};
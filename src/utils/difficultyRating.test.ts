@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialGameState } from '../hooks/useGameState';
+import { DifficultyRatings, QuestionHistory, TriviaQuestion } from '../types/game';
+import {
+  INITIAL_PLAYER_RATING,
+  MAX_RATING,
+  MIN_RATING,
+  getAdaptiveQuestion,
+  getCategoryRating,
+  getExpectedSuccess,
+  getQuestionForSetting,
+  updateDifficultyRatings,
+} from './difficultyRating';
+
+const question = (id: string, category: string, difficulty: TriviaQuestion['difficulty']): TriviaQuestion => ({
+  id,
+  question: `Question ${id}`,
+  type: 'type-answer',
+  correctAnswer: id,
+  category,
+  difficulty,
+});
+
+const noRatings: DifficultyRatings = { categories: {}, questions: {} };
+const noHistory: QuestionHistory = { answered: 0, entries: {} };
+const mediumMath = question('m1', 'Math', 'medium');
+
+describe('getExpectedSuccess', () => {
+  it('is even for equal ratings and falls as the question gets harder', () => {
+    expect(getExpectedSuccess(1000, 1000)).toBe(0.5);
+    expect(getExpectedSuccess(1000, 1400)).toBeCloseTo(1 / 11);
+    expect(getExpectedSuccess(1400, 1000)).toBeCloseTo(10 / 11);
+  });
+});
+
+describe('updateDifficultyRatings', () => {
+  it('moves the player up and the question down after a correct answer', () => {
+    const ratings = updateDifficultyRatings(noRatings, mediumMath, 1);
+    expect(ratings.categories.Math).toBe(1016);
+    expect(ratings.questions.m1).toBe(992);
+  });
+
+  it('moves them the other way after a wrong answer', () => {
+    const ratings = updateDifficultyRatings(noRatings, mediumMath, 0);
+    expect(ratings.categories.Math).toBe(984);
+    expect(ratings.questions.m1).toBe(1008);
+  });
+
+  it('leaves even ratings alone for half credit', () => {
+    const ratings = updateDifficultyRatings(noRatings, mediumMath, 0.5);
+    expect(ratings.categories.Math).toBe(1000);
+    expect(ratings.questions.m1).toBe(1000);
+  });
+
+  it('keeps ratings within bounds', () => {
+    const low = updateDifficultyRatings({ categories: { Math: MIN_RATING }, questions: { m1: MAX_RATING } }, mediumMath, 0);
+    expect(low.categories.Math).toBe(MIN_RATING);
+    expect(low.questions.m1).toBe(MAX_RATING);
+
+    const high = updateDifficultyRatings({ categories: { Math: MAX_RATING }, questions: { m1: MIN_RATING } }, mediumMath, 1);
+    expect(high.categories.Math).toBe(MAX_RATING);
+    expect(high.questions.m1).toBe(MIN_RATING);
+  });
+
+  it('only changes the answered category', () => {
+    const ratings = updateDifficultyRatings({ categories: { Art: 900 }, questions: {} }, mediumMath, 1);
+    expect(getCategoryRating(ratings, 'Art')).toBe(900);
+    expect(getCategoryRating(ratings, 'Science')).toBe(INITIAL_PLAYER_RATING);
+  });
+});
+
+describe('getAdaptiveQuestion', () => {
+  const hardMath = ['1', '2', '3', '4', '5'].map(n => question(`math${n}`, 'Math', 'hard'));
+  const hardArt = ['1', '2', '3', '4', '5'].map(n => question(`art${n}`, 'Art', 'hard'));
+
+  it('uses the rating of each question\'s own category', () => {
+    // Hard questions suit a strong Math player but not a weak Art one
+    const ratings: DifficultyRatings = { categories: { Math: 1400, Art: 600 }, questions: {} };
+    for (let i = 0; i < 10; i++) {
+      expect(getAdaptiveQuestion([...hardMath, ...hardArt], ratings, noHistory).category).toBe('Math');
+    }
+  });
+});
+
+describe('getQuestionForSetting', () => {
+  const hardMath = ['1', '2', '3', '4', '5'].map(n => question(`hard${n}`, 'Math', 'hard'));
+  const easyMath = question('easy1', 'Math', 'easy');
+  const ratings: DifficultyRatings = { categories: { Math: 1400 }, questions: {} };
+
+  it('draws from the zone\'s difficulty in zone mode', () => {
+    expect(getQuestionForSetting('zone', 1, [...hardMath, easyMath], ratings, noHistory).id).toBe('easy1');
+  });
+
+  it('matches the player\'s rating in adaptive mode', () => {
+    expect(getQuestionForSetting('adaptive', 1, [...hardMath, easyMath], ratings, noHistory).difficulty).toBe('hard');
+  });
+
+  it('defaults new games to zone mode', () => {
+    expect(createInitialGameState().settings.questionDifficulty).toBe('zone');
+  });
+});
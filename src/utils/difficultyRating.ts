@@ -0,0 +1,100 @@
+import { DifficultyRatings, GameSettings, QuestionHistory, TriviaQuestion } from '../types/game';
+import { selectQuestion } from './questionSelection';
+import { getQuestionByZone } from './triviaQuestions';
+
+export const INITIAL_PLAYER_RATING = 1000;
+// Where a question starts before anyone has answered it
+export const DIFFICULTY_START_RATINGS: Record<TriviaQuestion['difficulty'], number> = {
+  easy: 800,
+  medium: 1000,
+  hard: 1200,
+};
+// Ratings never leave this range, so a long run of misses on one question
+// can't bury it for good
+export const MIN_RATING = 100;
+export const MAX_RATING = 3000;
+// How far one answer moves each rating. Questions move slower so a single
+// lucky guess doesn't mark them easy.
+const PLAYER_K = 32;
+const QUESTION_K = 16;
+// Adaptive mode aims for questions the player gets right this often
+export const TARGET_SUCCESS = 0.7;
+// Questions whose expected success is within this of the target are fair game
+const TARGET_BAND = 0.15;
+// If the band holds fewer questions than this, the nearest ones are used
+// instead so selection still has some variety
+const MIN_ADAPTIVE_POOL = 5;
+
+export const getCategoryRating = (ratings: DifficultyRatings, category: string): number => {
+  return ratings.categories[category] ?? INITIAL_PLAYER_RATING;
+};
+
+export const getQuestionRating = (ratings: DifficultyRatings, question: TriviaQuestion): number => {
+  return ratings.questions[question.id] ?? DIFFICULTY_START_RATINGS[question.difficulty];
+};
+
+// Chance a player at `playerRating` answers a question at `questionRating`
+export const getExpectedSuccess = (playerRating: number, questionRating: number): number => {
+  return 1 / (1 + Math.pow(10, (questionRating - playerRating) / 400));
+};
+
+const clampRating = (rating: number): number => {
+  return Math.min(MAX_RATING, Math.max(MIN_RATING, Math.round(rating)));
+};
+
+// `score` is 1 for a correct answer, 0 for a wrong one and the partial
+// credit in between. The player's category rating and the question's rating
+// move in opposite directions by the same surprise.
+export const updateDifficultyRatings = (ratings: DifficultyRatings, question: TriviaQuestion, score: number): DifficultyRatings => {
+  const playerRating = getCategoryRating(ratings, question.category);
+  const questionRating = getQuestionRating(ratings, question);
+  const surprise = score - getExpectedSuccess(playerRating, questionRating);
+
+  return {
+    categories: { ...ratings.categories, [question.category]: clampRating(playerRating + PLAYER_K * surprise) },
+    questions: { ...ratings.questions, [question.id]: clampRating(questionRating - QUESTION_K * surprise) },
+  };
+};
+
+// Narrows the pool to questions the player should get right about
+// TARGET_SUCCESS of the time in their category, then lets the history pick
+export const getAdaptiveQuestion = (
+  questions: TriviaQuestion[],
+  ratings: DifficultyRatings,
+  history: QuestionHistory,
+  excludeIds: string[] = []
+): TriviaQuestion => {
+  const byFit = questions
+    .map(question => ({
+      question,
+      miss: Math.abs(getExpectedSuccess(getCategoryRating(ratings, question.category), getQuestionRating(ratings, question)) - TARGET_SUCCESS),
+    }))
+    .sort((a, b) => a.miss - b.miss);
+
+  const inBand = byFit.filter(f => f.miss <= TARGET_BAND);
+  const pool = (inBand.length >= MIN_ADAPTIVE_POOL ? inBand : byFit.slice(0, MIN_ADAPTIVE_POOL)).map(f => f.question);
+  return selectQuestion(pool, history, excludeIds);
+};
+
+// The next question for the player's Question Difficulty setting: matched to
+// their ratings in adaptive mode, drawn from the zone's difficulty otherwise
+export const getQuestionForSetting = (
+  setting: GameSettings['questionDifficulty'],
+  zone: number,
+  questions: TriviaQuestion[],
+  ratings: DifficultyRatings,
+  history: QuestionHistory,
+  excludeIds: string[] = []
+): TriviaQuestion => {
+  return setting === 'adaptive'
+    ? getAdaptiveQuestion(questions, ratings, history, excludeIds)
+    : getQuestionByZone(zone, questions, history, excludeIds);
+};
+
+export const getRatingTitle = (rating: number): string => {
+  if (rating < 850) return 'Novice';
+  if (rating < 1000) return 'Apprentice';
+  if (rating < 1150) return 'Scholar';
+  if (rating < 1300) return 'Expert';
+  return 'Master';
+};
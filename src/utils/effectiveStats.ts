@@ -0,0 +1,112 @@
+import { Armor, EffectiveStat, EffectiveStats, GameState, StatSource, Weapon } from '../types/game';
+import { getEquipmentBonus, isWeapon } from './equipment';
+import { getGardenMultipliers } from './garden';
+import { getModeModifiers } from './modeModifiers';
+import { getPrestigeMultipliers } from './prestige';
+import { getSkillEffects } from './progression';
+import { getResearchBonuses } from './research';
+
+// Flat points are added up first, then each multiplier applies in order.
+// Rounding after every step keeps the breakdown summing to the total.
+const buildStat = (flat: [string, number][], multipliers: [string, number][]): EffectiveStat => {
+  const sources: StatSource[] = flat
+    .filter(([, points]) => points !== 0)
+    .map(([source, points]) => ({ source, points }));
+  let total = sources.reduce((sum, s) => sum + s.points, 0);
+
+  multipliers
+    .filter(([, multiplier]) => multiplier !== 1)
+    .forEach(([source, multiplier]) => {
+      const next = Math.floor(total * multiplier);
+      sources.push({ source, points: next - total, multiplier });
+      total = next;
+    });
+
+  return { total, sources };
+};
+
+// Splits an item's points into what its level gives and what its enchantment
+// doubled
+const getGearSources = (label: string, item: Weapon | Armor | null, points: number): [string, number][] => {
+  if (!item || points === 0) return [];
+  const base = isWeapon(item) ? item.baseAtk : item.baseDef;
+  const enchantment = item.isEnchanted ? base - Math.round(base / (item.enchantmentMultiplier || 1)) : 0;
+  return [[label, points - enchantment], ['Enchantment', enchantment]];
+};
+
+// Every source of player ATK, DEF and max HP in one place. Combat uses the
+// totals; the UI shows the sources.
+export const computeEffectiveStats = (state: GameState): EffectiveStats => {
+  const { inventory, playerStats } = state;
+  const equipment = getEquipmentBonus(inventory);
+  const research = getResearchBonuses(state.research);
+  const skillEffects = getSkillEffects(state.progression);
+  const prestige = getPrestigeMultipliers(state.progression);
+  const garden = getGardenMultipliers(state.gardenOfGrowth);
+  const mode = getModeModifiers(state.gameMode.current);
+  const adventure = state.adventureSkills.skillEffects.statMultipliers;
+  const relicAtk = inventory.equippedRelics.reduce((sum, r) => sum + (r.baseAtk || 0), 0);
+  const relicDef = inventory.equippedRelics.reduce((sum, r) => sum + (r.baseDef || 0), 0);
+
+  return {
+    atk: buildStat(
+      [['Base', playerStats.atk], ...getGearSources('Weapon', inventory.currentWeapon, equipment.atk), ['Relics', relicAtk]],
+      [
+        ['Research', research.atk],
+        ['Combat Mastery', skillEffects.atkMultiplier],
+        ['Prestige', prestige.atk],
+        ['Garden', garden.atk],
+        ['Game Mode', mode.playerAtk],
+        ['Pokyeg Market', state.multipliers.atk],
+        ['Adventure Skill', adventure.atk],
+      ]
+    ),
+    def: buildStat(
+      [['Base', playerStats.def], ...getGearSources('Armor', inventory.currentArmor, equipment.def), ['Relics', relicDef]],
+      [
+        ['Research', research.def],
+        ['Combat Mastery', skillEffects.defMultiplier],
+        ['Garden', garden.def],
+        ['Game Mode', mode.playerDef],
+        ['Pokyeg Market', state.multipliers.def],
+        ['Adventure Skill', adventure.def],
+      ]
+    ),
+    maxHp: buildStat(
+      [['Base', playerStats.maxHp]],
+      [
+        ['Research', research.hp],
+        ['Garden', garden.hp],
+        ['Game Mode', mode.playerHp],
+        ['Pokyeg Market', state.multipliers.hp],
+        ['Adventure Skill', adventure.hp],
+      ]
+    ),
+  };
+};
+
+// Stats as they would be with `item` equipped in its slot
+export const computeStatsWithItem = (state: GameState, item: Weapon | Armor): EffectiveStats => {
+  const inventory = isWeapon(item)
+    ? { ...state.inventory, currentWeapon: item }
+    : { ...state.inventory, currentArmor: item };
+  return computeEffectiveStats({ ...state, inventory });
+};
+
+// Multi-line text for a title tooltip
+export const formatStatBreakdown = (stat: EffectiveStat): string => {
+  return stat.sources
+    .map(s => `${s.source}${s.multiplier !== undefined ? ` (x${s.multiplier.toFixed(2)})` : ''}: ${s.points >= 0 ? '+' : ''}${s.points}`)
+    .join('\n');
+};
+
+// Keeps current HP in proportion when the max HP changes (a market
+// multiplier, a mode penalty, an adventure skill) so the bar stays as full
+export const syncPlayerHp = (previous: GameState, next: GameState): GameState => {
+  const previousMax = computeEffectiveStats(previous).maxHp.total;
+  const nextMax = computeEffectiveStats(next).maxHp.total;
+  if (previousMax === nextMax || previousMax <= 0) return next;
+
+  const hp = Math.min(nextMax, Math.round(next.playerStats.hp * nextMax / previousMax));
+  return hp === next.playerStats.hp ? next : { ...next, playerStats: { ...next.playerStats, hp } };
+};
@@ -0,0 +1,125 @@
+import { Enemy, EnemyAbility, GameMode, PlayerStatus } from '../types/game';
+import { getModeModifiers } from './modeModifiers';
+
+export const BOSS_ZONE_INTERVAL = 10;
+export const POISON_TURNS = 3;
+export const POISON_DAMAGE_PERCENT = 0.05;
+export const REGEN_PERCENT = 0.05;
+export const SHIELD_PERCENT = 0.25;
+export const ENRAGE_HP_THRESHOLD = 0.5;
+export const ENRAGE_ATK_MULTIPLIER = 1.5;
+export const TIMER_REDUCTION_SECONDS = 2;
+export const MIN_QUESTION_TIME = 2;
+
+export interface EnemyDefinition {
+  name: string;
+  minZone: number;
+  hp: number;
+  atk: number;
+  def: number;
+  ability?: EnemyAbility;
+}
+
+// Each entry takes over from its minZone until the next entry starts; the
+// stat values scale the zone's base stats
+export const enemyCatalog: EnemyDefinition[] = [
+  { name: 'Goblin Warrior', minZone: 1, hp: 1, atk: 1, def: 1 },
+  { name: 'Shadow Wolf', minZone: 6, hp: 0.9, atk: 1.1, def: 0.9, ability: 'poison' },
+  { name: 'Stone Golem', minZone: 11, hp: 1.2, atk: 0.9, def: 1.3, ability: 'shield' },
+  { name: 'Fire Imp', minZone: 16, hp: 0.8, atk: 1.2, def: 0.9, ability: 'enrage' },
+  { name: 'Ice Troll', minZone: 21, hp: 1.2, atk: 1, def: 1, ability: 'regen' },
+  { name: 'Dark Mage', minZone: 26, hp: 0.9, atk: 1.1, def: 0.9, ability: 'timer' },
+  { name: 'Lightning Drake', minZone: 31, hp: 1, atk: 1.2, def: 1, ability: 'enrage' },
+  { name: 'Void Wraith', minZone: 36, hp: 0.9, atk: 1.1, def: 1, ability: 'poison' },
+  { name: 'Crystal Beast', minZone: 41, hp: 1.1, atk: 1, def: 1.2, ability: 'shield' },
+  { name: 'Ancient Dragon', minZone: 46, hp: 1.3, atk: 1.2, def: 1.1, ability: 'enrage' },
+  { name: 'Chaos Lord', minZone: 51, hp: 1.1, atk: 1.1, def: 1, ability: 'regen' },
+  { name: 'Nightmare King', minZone: 56, hp: 1, atk: 1.1, def: 1, ability: 'timer' },
+  { name: 'Abyssal Terror', minZone: 61, hp: 1.1, atk: 1.1, def: 1, ability: 'poison' },
+  { name: 'Cosmic Horror', minZone: 66, hp: 1.2, atk: 1, def: 1.2, ability: 'shield' },
+  { name: 'Reality Bender', minZone: 71, hp: 1, atk: 1.1, def: 1, ability: 'timer' },
+  { name: 'Dimension Lord', minZone: 76, hp: 1.2, atk: 1.1, def: 1.1, ability: 'regen' },
+  { name: 'Eternal Guardian', minZone: 81, hp: 1.3, atk: 1, def: 1.3, ability: 'shield' },
+  { name: 'Void Emperor', minZone: 86, hp: 1.2, atk: 1.2, def: 1.1, ability: 'enrage' },
+  { name: 'Chaos Incarnate', minZone: 91, hp: 1.2, atk: 1.2, def: 1.1, ability: 'poison' },
+  { name: 'Reality Destroyer', minZone: 96, hp: 1.3, atk: 1.3, def: 1.2, ability: 'regen' },
+];
+
+export const abilityDescriptions: Record<EnemyAbility, { name: string; description: string }> = {
+  poison: { name: 'Poison', description: `Its hits poison you for ${POISON_TURNS} turns` },
+  regen: { name: 'Regeneration', description: `Heals ${REGEN_PERCENT * 100}% of its max HP every turn` },
+  shield: { name: 'Shield', description: `A barrier absorbs the first ${SHIELD_PERCENT * 100}% of its max HP in damage` },
+  enrage: { name: 'Enrage', description: `Below ${ENRAGE_HP_THRESHOLD * 100}% HP its attack rises by ${(ENRAGE_ATK_MULTIPLIER - 1) * 100}%` },
+  timer: { name: 'Time Warp', description: `You get ${TIMER_REDUCTION_SECONDS} fewer seconds to answer` },
+};
+
+export const getEnemyDefinition = (zone: number): EnemyDefinition => {
+  return [...enemyCatalog].reverse().find(def => zone >= def.minZone) || enemyCatalog[0];
+};
+
+export const isBossZone = (zone: number): boolean => {
+  return zone % BOSS_ZONE_INTERVAL === 0;
+};
+
+// Sets up the per-fight state an ability needs
+export const initializeEnemyAbility = (enemy: Enemy): Enemy => ({
+  ...enemy,
+  shield: enemy.specialAbility === 'shield' ? Math.floor(enemy.maxHp * SHIELD_PERCENT) : 0,
+  isEnraged: false,
+});
+
+// `bonusSeconds` comes from Quick Thinking research
+export const getQuestionTime = (mode: GameMode['current'], enemy: Enemy | null, bonusSeconds = 0): number => {
+  const questionTime = getModeModifiers(mode).questionTime + bonusSeconds;
+  if (enemy?.specialAbility !== 'timer') return questionTime;
+  return Math.max(MIN_QUESTION_TIME, questionTime - TIMER_REDUCTION_SECONDS);
+};
+
+// Splits a hit between the enemy's shield and its HP
+export const absorbWithShield = (enemy: Enemy, damage: number): { shield: number; damage: number; absorbed: number } => {
+  const shield = enemy.shield || 0;
+  const absorbed = Math.min(shield, damage);
+  return { shield: shield - absorbed, damage: damage - absorbed, absorbed };
+};
+
+// End-of-turn effects for a living enemy: poison ticks on the player,
+// regeneration and the one-time enrage. Returns the enemy and player status
+// as they are after the turn.
+export const resolveEnemyTurn = (enemy: Enemy, playerStatus: PlayerStatus, playerMaxHp: number): {
+  enemy: Enemy;
+  playerStatus: PlayerStatus;
+  poisonDamage: number;
+  log: string[];
+} => {
+  const log: string[] = [];
+  let enemyHp = enemy.hp;
+  let enemyAtk = enemy.atk;
+  let isEnraged = !!enemy.isEnraged;
+  let poisonTurns = playerStatus.poisonTurns;
+  let poisonDamage = 0;
+
+  if (poisonTurns > 0) {
+    poisonDamage = Math.max(1, Math.floor(playerMaxHp * POISON_DAMAGE_PERCENT));
+    poisonTurns -= 1;
+    log.push(`Poison deals ${poisonDamage} damage!`);
+  }
+
+  if (enemy.specialAbility === 'regen' && enemyHp < enemy.maxHp) {
+    const healed = Math.min(enemy.maxHp - enemyHp, Math.max(1, Math.floor(enemy.maxHp * REGEN_PERCENT)));
+    enemyHp += healed;
+    log.push(`${enemy.name} regenerates ${healed} HP!`);
+  }
+
+  if (enemy.specialAbility === 'enrage' && !isEnraged && enemyHp <= enemy.maxHp * ENRAGE_HP_THRESHOLD) {
+    isEnraged = true;
+    enemyAtk = Math.floor(enemyAtk * ENRAGE_ATK_MULTIPLIER);
+    log.push(`${enemy.name} becomes enraged!`);
+  }
+
+  return {
+    enemy: { ...enemy, hp: enemyHp, atk: enemyAtk, isEnraged },
+    playerStatus: { ...playerStatus, poisonTurns },
+    poisonDamage,
+    log,
+  };
+};
@@ -0,0 +1,90 @@
+import { Armor, Inventory, Weapon } from '../types/game';
+import { getRepairCost } from './gameUtils';
+
+export const DURABILITY_LOSS_PER_HIT = 1;
+
+export const getWeaponAtk = (weapon: Weapon): number => {
+  return weapon.baseAtk + (weapon.level - 1) * 10;
+};
+
+export const getArmorDef = (armor: Armor): number => {
+  return armor.baseDef + (armor.level - 1) * 5;
+};
+
+export const isWeapon = (item: Weapon | Armor): item is Weapon => {
+  return 'baseAtk' in item;
+};
+
+export const isItemBroken = (item: Weapon | Armor): boolean => {
+  return item.durability <= 0;
+};
+
+export const isItemDamaged = (item: Weapon | Armor): boolean => {
+  return item.durability < item.maxDurability;
+};
+
+// Broken gear stays equipped but adds nothing until it is repaired
+export const getEquipmentBonus = (inventory: Inventory) => {
+  const weapon = inventory.currentWeapon;
+  const armor = inventory.currentArmor;
+
+  return {
+    atk: weapon && !isItemBroken(weapon) ? getWeaponAtk(weapon) : 0,
+    def: armor && !isItemBroken(armor) ? getArmorDef(armor) : 0,
+  };
+};
+
+// Whole points only: a loss multiplier below 1 (Durability Expert) becomes
+// the chance that a hit costs a point at all
+export const rollDurabilityLoss = (lossMultiplier: number): number => {
+  return Math.random() < lossMultiplier ? DURABILITY_LOSS_PER_HIT : 0;
+};
+
+// Wears the equipped item in `slot` and keeps the copy in the item list in
+// sync with the equipped copy
+export const wearEquippedItem = (inventory: Inventory, slot: 'weapon' | 'armor', amount: number): Inventory => {
+  if (amount <= 0) return inventory;
+
+  if (slot === 'weapon') {
+    const weapon = inventory.currentWeapon;
+    if (!weapon || isItemBroken(weapon)) return inventory;
+    const worn = { ...weapon, durability: Math.max(0, weapon.durability - amount) };
+    return {
+      ...inventory,
+      currentWeapon: worn,
+      weapons: inventory.weapons.map(w => w.id === worn.id ? worn : w),
+    };
+  }
+
+  const armor = inventory.currentArmor;
+  if (!armor || isItemBroken(armor)) return inventory;
+  const worn = { ...armor, durability: Math.max(0, armor.durability - amount) };
+  return {
+    ...inventory,
+    currentArmor: worn,
+    armor: inventory.armor.map(a => a.id === worn.id ? worn : a),
+  };
+};
+
+export const getTotalRepairCost = (items: (Weapon | Armor)[]): number => {
+  return items.reduce((sum, item) => sum + getRepairCost(item), 0);
+};
+
+// Fully repairs the given items, including the equipped copies
+export const repairInventoryItems = (inventory: Inventory, itemIds: string[], type: 'weapon' | 'armor'): Inventory => {
+  if (type === 'weapon') {
+    const weapons = inventory.weapons.map(w => itemIds.includes(w.id) ? { ...w, durability: w.maxDurability } : w);
+    return {
+      ...inventory,
+      weapons,
+      currentWeapon: inventory.currentWeapon && (weapons.find(w => w.id === inventory.currentWeapon?.id) || inventory.currentWeapon),
+    };
+  }
+
+  const armor = inventory.armor.map(a => itemIds.includes(a.id) ? { ...a, durability: a.maxDurability } : a);
+  return {
+    ...inventory,
+    armor,
+    currentArmor: inventory.currentArmor && (armor.find(a => a.id === inventory.currentArmor?.id) || inventory.currentArmor),
+  };
+};
@@ -0,0 +1,90 @@
+import { Enemy, GameMode, ModeRun } from '../types/game';
+import { generateBoss, generateEnemy } from './gameUtils';
+
+export type RunMode = ModeRun['mode'];
+
+export const TIME_ATTACK_DURATION = 60;
+export const TIME_ATTACK_VICTORY_POINTS = 50;
+export const BOSS_RUSH_REWARD_MULTIPLIER = 3;
+
+export const isRunMode = (mode: GameMode['current']): mode is RunMode => {
+  return mode === 'survival' || mode === 'timeAttack' || mode === 'boss';
+};
+
+export const createModeRun = (mode: RunMode, zone: number): ModeRun => ({
+  mode,
+  startZone: zone,
+  enemiesDefeated: 0,
+  correctAnswers: 0,
+  wrongAnswers: 0,
+  score: 0,
+  coinsEarned: 0,
+  gemsEarned: 0,
+});
+
+// Starts a run the first time combat begins in a run mode; later encounters
+// in the same run keep the existing one
+export const startModeRunIfNeeded = (gameMode: GameMode, zone: number): GameMode => {
+  if (!isRunMode(gameMode.current) || gameMode.activeRun) return gameMode;
+
+  return {
+    ...gameMode,
+    activeRun: createModeRun(gameMode.current, zone),
+    survivalLives: gameMode.maxSurvivalLives,
+    timeAttackTimeLeft: TIME_ATTACK_DURATION,
+    bossProgress: 0,
+  };
+};
+
+// Survival enemies get 5% tougher for every enemy already beaten this run;
+// Boss Rush chains bosses that climb two zones per boss defeated
+export const generateRunEnemy = (gameMode: GameMode, zone: number): Enemy => {
+  const run = gameMode.activeRun;
+
+  if (run?.mode === 'boss') {
+    return generateBoss(zone + gameMode.bossProgress * 2, gameMode.current);
+  }
+
+  const enemy = generateEnemy(zone, gameMode.current);
+  if (run?.mode === 'survival') {
+    const scaling = 1 + run.enemiesDefeated * 0.05;
+    const hp = Math.floor(enemy.hp * scaling);
+    return {
+      ...enemy,
+      hp,
+      maxHp: hp,
+      atk: Math.floor(enemy.atk * scaling),
+    };
+  }
+
+  return enemy;
+};
+
+// Survival pays a growing bonus for distance, Boss Rush pays triple
+export const getRunRewardMultiplier = (run: ModeRun | null): number => {
+  if (!run) return 1;
+  if (run.mode === 'survival') return 1 + run.enemiesDefeated * 0.1;
+  if (run.mode === 'boss') return BOSS_RUSH_REWARD_MULTIPLIER;
+  return 1;
+};
+
+export const calculateTimeAttackPoints = (streakMultiplier: number): number => {
+  return Math.floor(10 * streakMultiplier);
+};
+
+// Stores the summary and resets per-run counters so the next run starts clean
+export const endModeRun = (gameMode: GameMode, outcome: string): GameMode => {
+  const run = gameMode.activeRun;
+  if (!run) return gameMode;
+
+  const isNewBest = run.mode === 'timeAttack' && run.score > gameMode.timeAttackScore;
+
+  return {
+    ...gameMode,
+    activeRun: null,
+    lastRunSummary: { ...run, outcome, isNewBest },
+    timeAttackScore: isNewBest ? run.score : gameMode.timeAttackScore,
+    survivalLives: gameMode.maxSurvivalLives,
+    timeAttackTimeLeft: TIME_ATTACK_DURATION,
+  };
+};
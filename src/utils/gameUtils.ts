@@ -1,5 +1,7 @@
-import { Weapon, Armor, Enemy, RelicItem } from '../types/game';
+import { Weapon, Armor, Enemy, RelicItem, GameMode } from '../types/game';
 import { getColorblindRarityClass, getRaritySymbol } from './colorblindUtils';
+import { getModeModifiers } from './modeModifiers';
+import { getEnemyDefinition, initializeEnemyAbility, isBossZone } from './enemies';
 
 const weaponNames = {
   common: ['Rusty Sword', 'Wooden Club', 'Stone Axe', 'Iron Dagger'],
@@ -40,14 +42,6 @@ const relicNames = {
   ]
 };
 
-const enemyNames = [
-  'Goblin Warrior', 'Shadow Wolf', 'Stone Golem', 'Fire Imp',
-  'Ice Troll', 'Dark Mage', 'Lightning Drake', 'Void Wraith',
-  'Crystal Beast', 'Ancient Dragon', 'Chaos Lord', 'Nightmare King',
-  'Abyssal Terror', 'Cosmic Horror', 'Reality Bender', 'Dimension Lord',
-  'Eternal Guardian', 'Void Emperor', 'Chaos Incarnate', 'Reality Destroyer'
-];
-
 const getDurabilityByRarity = (rarity: string): number => {
   const durabilityMap = {
     common: 50,
@@ -59,7 +53,9 @@ const getDurabilityByRarity = (rarity: string): number => {
   return durabilityMap[rarity as keyof typeof durabilityMap] || 50;
 };
 
-export const generateWeapon = (forceChroma = false, forceRarity?: string, forceEnchanted = false): Weapon => {
+export const BASE_ENCHANT_CHANCE = 0.05;
+
+export const generateWeapon = (forceChroma = false, forceRarity?: string, forceEnchanted = false, enchantChance = BASE_ENCHANT_CHANCE): Weapon => {
   let rarity: 'common' | 'rare' | 'epic' | 'legendary' | 'mythical';
   
   if (forceRarity) {
@@ -88,7 +84,7 @@ export const generateWeapon = (forceChroma = false, forceRarity?: string, forceE
   const upgradeCostMap = { common: 5, rare: 10, epic: 20, legendary: 40, mythical: 50 };
   let baseAtk = baseAtkMap[rarity] + Math.floor(Math.random() * 10);
   
-  const isEnchanted = forceEnchanted || Math.random() < 0.05;
+  const isEnchanted = forceEnchanted || Math.random() < enchantChance;
   let enchantmentMultiplier = 1;
   
   if (isEnchanted) {
@@ -115,7 +111,7 @@ export const generateWeapon = (forceChroma = false, forceRarity?: string, forceE
   };
 };
 
-export const generateArmor = (forceChroma = false, forceRarity?: string, forceEnchanted = false): Armor => {
+export const generateArmor = (forceChroma = false, forceRarity?: string, forceEnchanted = false, enchantChance = BASE_ENCHANT_CHANCE): Armor => {
   let rarity: 'common' | 'rare' | 'epic' | 'legendary' | 'mythical';
   
   if (forceRarity) {
@@ -144,7 +140,7 @@ export const generateArmor = (forceChroma = false, forceRarity?: string, forceEn
   const upgradeCostMap = { common: 5, rare: 10, epic: 20, legendary: 40, mythical: 50 };
   let baseDef = baseDefMap[rarity] + Math.floor(Math.random() * 5);
   
-  const isEnchanted = forceEnchanted || Math.random() < 0.05;
+  const isEnchanted = forceEnchanted || Math.random() < enchantChance;
   let enchantmentMultiplier = 1;
   
   if (isEnchanted) {
@@ -171,13 +167,14 @@ export const generateArmor = (forceChroma = false, forceRarity?: string, forceEn
   };
 };
 
-export const generateRelicItem = (): RelicItem => {
+// `quality` scales relic power (and so price) with the player's progress
+export const generateRelicItem = (quality = 1): RelicItem => {
   const isWeapon = Math.random() < 0.5;
   const names = isWeapon ? relicNames.weapons : relicNames.armor;
   const name = names[Math.floor(Math.random() * names.length)];
   
   if (isWeapon) {
-    const baseAtk = 120 + Math.floor(Math.random() * 60);
+    const baseAtk = Math.floor((120 + Math.floor(Math.random() * 60)) * quality);
     return {
       id: Math.random().toString(36).substr(2, 9),
       name,
@@ -189,7 +186,7 @@ export const generateRelicItem = (): RelicItem => {
       description: 'A powerful relic weapon from ancient times'
     };
   } else {
-    const baseDef = 90 + Math.floor(Math.random() * 45);
+    const baseDef = Math.floor((90 + Math.floor(Math.random() * 45)) * quality);
     return {
       id: Math.random().toString(36).substr(2, 9),
       name,
@@ -211,9 +208,8 @@ export const generateMythicalArmor = (): Armor => {
   return generateArmor(false, 'mythical');
 };
 
-export const generateEnemy = (zone: number): Enemy => {
-  const nameIndex = Math.min(Math.floor((zone - 1) / 5), enemyNames.length - 1);
-  const name = enemyNames[nameIndex];
+const createZoneEnemy = (zone: number, mode: GameMode['current']): Enemy => {
+  const definition = getEnemyDefinition(zone);
   
   let hp = 200 + (zone * 15);
   let atk = 20 + (zone * 8);
@@ -224,20 +220,49 @@ export const generateEnemy = (zone: number): Enemy => {
     atk = Math.floor(atk * Math.pow(1.08, zone - 10));
     def = Math.floor(def * Math.pow(1.05, zone - 10));
   }
+
+  const modifiers = getModeModifiers(mode);
+  hp = Math.floor(hp * definition.hp * modifiers.enemyHp);
+  atk = Math.floor(atk * definition.atk * modifiers.enemyAtk);
+  def = Math.floor(def * definition.def * modifiers.enemyDef);
   
   return {
-    name,
+    name: definition.name,
     hp,
     maxHp: hp,
     atk,
     def,
     zone,
-    isPoisoned: false,
-    poisonTurns: 0,
     canDropItems: zone >= 10,
+    specialAbility: definition.ability,
   };
 };
 
+// Every BOSS_ZONE_INTERVAL-th zone is guarded by a boss
+export const generateEnemy = (zone: number, mode: GameMode['current'] = 'normal'): Enemy => {
+  if (isBossZone(zone)) return generateBoss(zone, mode);
+  return initializeEnemyAbility(createZoneEnemy(zone, mode));
+};
+
+// Bosses are a much tougher version of the zone's regular enemy and always
+// have an ability
+export const generateBoss = (zone: number, mode: GameMode['current'] = 'normal'): Enemy => {
+  const enemy = createZoneEnemy(zone, mode);
+  const hp = Math.floor(enemy.hp * 3);
+
+  return initializeEnemyAbility({
+    ...enemy,
+    name: `${enemy.name} Overlord`,
+    hp,
+    maxHp: hp,
+    atk: Math.floor(enemy.atk * 1.5),
+    def: Math.floor(enemy.def * 1.5),
+    isBoss: true,
+    canDropItems: true,
+    specialAbility: enemy.specialAbility || 'enrage',
+  });
+};
+
 export const getChestRarityWeights = (chestCost: number): number[] => {
   if (chestCost >= 1000) {
     return [0, 0, 0, 70, 30];
@@ -280,14 +305,6 @@ export const getRarityDisplayName = (rarity: string, isColorblindMode = false):
   return symbol ? `${symbol} ${rarity.toUpperCase()}` : rarity.toUpperCase();
 };
 
-export const calculateResearchBonus = (level: number): number => {
-  return level * 10;
-};
-
-export const calculateResearchCost = (level: number): number => {
-  return 100 + (level * 25);
-};
-
 export const getRepairCost = (item: Weapon | Armor): number => {
   const durabilityPercent = item.durability / item.maxDurability;
   const baseCost = Math.floor((1 - durabilityPercent) * 20);
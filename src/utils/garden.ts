@@ -0,0 +1,34 @@
+import { GardenOfGrowth } from '../types/game';
+
+export const GARDEN_GROWTH_CM_PER_HOUR = 0.5;
+export const GARDEN_BONUS_PERCENT_PER_CM = 5;
+
+// Simulates growth from the last tick up to `now`. The plant only grows for
+// the hours it still had water, so long absences stop once it runs dry.
+export const advanceGarden = (garden: GardenOfGrowth, now: Date): GardenOfGrowth => {
+  if (!garden.isPlanted) return garden;
+
+  const lastTick = garden.lastTickAt || garden.plantedAt || now;
+  const elapsedHours = Math.max(0, (now.getTime() - lastTick.getTime()) / (1000 * 60 * 60));
+  if (elapsedHours === 0) return garden;
+
+  const wateredHours = Math.min(elapsedHours, garden.waterHoursRemaining);
+  const growthCm = Math.min(garden.maxGrowthCm, garden.growthCm + wateredHours * GARDEN_GROWTH_CM_PER_HOUR);
+
+  return {
+    ...garden,
+    lastTickAt: now,
+    waterHoursRemaining: Math.max(0, garden.waterHoursRemaining - elapsedHours),
+    growthCm,
+    totalGrowthBonus: growthCm * GARDEN_BONUS_PERCENT_PER_CM,
+  };
+};
+
+export const getGardenMultipliers = (garden: GardenOfGrowth) => {
+  const multiplier = 1 + garden.totalGrowthBonus / 100;
+  return {
+    atk: multiplier,
+    def: multiplier,
+    hp: multiplier,
+  };
+};
@@ -0,0 +1,75 @@
+import { Armor, Enemy, LootPity, SkillsSystem, Weapon } from '../types/game';
+import { generateArmor, generateWeapon } from './gameUtils';
+import { getEnchantChance } from './menuSkills';
+
+// Guaranteed drop rarity after this many drops without one
+export const LEGENDARY_PITY = 30;
+export const MYTHICAL_PITY = 80;
+
+export interface LootTable {
+  minZone: number;
+  enemyType: 'regular' | 'boss';
+  dropChance: number;
+  weights: number[]; // common, rare, epic, legendary, mythical
+}
+
+// The table with the highest minZone not above the enemy's zone applies
+export const lootTables: LootTable[] = [
+  { minZone: 1, enemyType: 'regular', dropChance: 0.15, weights: [60, 30, 8, 2, 0] },
+  { minZone: 25, enemyType: 'regular', dropChance: 0.18, weights: [40, 35, 18, 6, 1] },
+  { minZone: 50, enemyType: 'regular', dropChance: 0.2, weights: [20, 35, 30, 12, 3] },
+  { minZone: 75, enemyType: 'regular', dropChance: 0.25, weights: [5, 25, 40, 22, 8] },
+  { minZone: 1, enemyType: 'boss', dropChance: 1, weights: [0, 40, 40, 17, 3] },
+  { minZone: 25, enemyType: 'boss', dropChance: 1, weights: [0, 20, 45, 28, 7] },
+  { minZone: 50, enemyType: 'boss', dropChance: 1, weights: [0, 5, 45, 38, 12] },
+  { minZone: 75, enemyType: 'boss', dropChance: 1, weights: [0, 0, 35, 45, 20] },
+];
+
+const rarities: Weapon['rarity'][] = ['common', 'rare', 'epic', 'legendary', 'mythical'];
+
+export const getLootTable = (enemy: Enemy): LootTable => {
+  const enemyType = enemy.isBoss ? 'boss' : 'regular';
+  return lootTables
+    .filter(table => table.enemyType === enemyType && enemy.zone >= table.minZone)
+    .reduce((best, table) => table.minZone > best.minZone ? table : best);
+};
+
+const rollRarity = (weights: number[]): Weapon['rarity'] => {
+  const random = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+  let cumulative = 0;
+  for (let i = 0; i < weights.length; i++) {
+    cumulative += weights[i];
+    if (random < cumulative) return rarities[i];
+  }
+  return rarities[0];
+};
+
+// Pity only counts drops, not kills, so a long dry streak of no drops at all
+// doesn't fill it
+const applyPity = (rarity: Weapon['rarity'], pity: LootPity): Weapon['rarity'] => {
+  if (pity.dropsSinceMythical + 1 >= MYTHICAL_PITY) return 'mythical';
+  if (pity.dropsSinceLegendary + 1 >= LEGENDARY_PITY && rarity !== 'mythical') return 'legendary';
+  return rarity;
+};
+
+const updatePity = (rarity: Weapon['rarity'], pity: LootPity): LootPity => ({
+  dropsSinceLegendary: rarity === 'legendary' || rarity === 'mythical' ? 0 : pity.dropsSinceLegendary + 1,
+  dropsSinceMythical: rarity === 'mythical' ? 0 : pity.dropsSinceMythical + 1,
+});
+
+// Only enemies flagged canDropItems roll loot. Returns the pity counters
+// unchanged when nothing drops. Drops roll enchantment like any other item,
+// so Enchanter applies to them too.
+export const rollEnemyLoot = (enemy: Enemy, pity: LootPity, skills: SkillsSystem, now: Date): { item: Weapon | Armor | null; pity: LootPity; fromPity: boolean } => {
+  const table = getLootTable(enemy);
+  if (!enemy.canDropItems || Math.random() >= table.dropChance) {
+    return { item: null, pity, fromPity: false };
+  }
+
+  const rolled = rollRarity(table.weights);
+  const rarity = applyPity(rolled, pity);
+  const enchantChance = getEnchantChance(skills, rarity, now);
+  const item = Math.random() < 0.5 ? generateWeapon(false, rarity, false, enchantChance) : generateArmor(false, rarity, false, enchantChance);
+
+  return { item, pity: updatePity(rarity, pity), fromPity: rarity !== rolled };
+};
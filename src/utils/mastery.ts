@@ -0,0 +1,102 @@
+import { MasteryMilestone, MasteryPerk, MasteryPerkType, ProgressionSystem } from '../types/game';
+
+export const MASTERY_XP_PER_CORRECT_ANSWER = 10;
+export const MAX_MASTERY_LEVEL = 10;
+
+export const masteryPerkDefinitions: MasteryPerk[] = [
+  { category: 'Math', name: 'Calculated Strikes', type: 'damage', perLevel: 0.05 },
+  { category: 'Science', name: 'Applied Science', type: 'damage', perLevel: 0.04 },
+  { category: 'Technology', name: 'Overclock', type: 'damage', perLevel: 0.04 },
+  { category: 'Geography', name: 'Sense of Direction', type: 'time', perLevel: 0.5 },
+  { category: 'History', name: 'Long Memory', type: 'time', perLevel: 0.5 },
+  { category: 'Time', name: 'Timekeeper', type: 'time', perLevel: 0.5 },
+  { category: 'Sports', name: 'Quick Reflexes', type: 'time', perLevel: 0.5 },
+  { category: 'Food', name: 'Hearty Meal', type: 'heal', perLevel: 0.01 },
+  { category: 'Body', name: 'First Aid', type: 'heal', perLevel: 0.01 },
+  { category: 'Animals', name: 'Scavenger', type: 'coins', perLevel: 3 },
+  { category: 'Entertainment', name: 'Showmanship', type: 'coins', perLevel: 3 },
+  { category: 'Art', name: 'Inspiration', type: 'xp', perLevel: 0.1 },
+  { category: 'Music', name: 'Rhythm', type: 'xp', perLevel: 0.1 },
+  { category: 'Literature', name: 'Well Read', type: 'xp', perLevel: 0.1 },
+];
+
+// Rewards paid once per category on reaching these levels
+export const masteryMilestones: MasteryMilestone[] = [
+  { level: 3, coins: 500, gems: 0 },
+  { level: 5, coins: 0, gems: 25 },
+  { level: 10, coins: 2500, gems: 100 },
+];
+
+// Categories from imported packs that have no perk of their own
+const getDefaultPerk = (category: string): MasteryPerk => ({
+  category,
+  name: 'Focus',
+  type: 'damage',
+  perLevel: 0.02,
+});
+
+export const getMasteryPerk = (category: string): MasteryPerk => {
+  return masteryPerkDefinitions.find(p => p.category === category) || getDefaultPerk(category);
+};
+
+// Total mastery XP needed to reach `level`: 50, 150, 300, ... 2750
+export const getMasteryXpForLevel = (level: number): number => {
+  return 25 * level * (level + 1);
+};
+
+export const getMasteryLevelFromXp = (experience: number): number => {
+  let level = 0;
+  while (level < MAX_MASTERY_LEVEL && experience >= getMasteryXpForLevel(level + 1)) {
+    level++;
+  }
+  return level;
+};
+
+export const getMasteryLevel = (progression: ProgressionSystem, category: string): number => {
+  return progression.masteryLevels[category] || 0;
+};
+
+// The category's perk value if it is of `type`, otherwise 0
+export const getMasteryBonus = (progression: ProgressionSystem, category: string, type: MasteryPerkType): number => {
+  const perk = getMasteryPerk(category);
+  return perk.type === type ? perk.perLevel * getMasteryLevel(progression, category) : 0;
+};
+
+// "+15% damage" for a perk at `level`; the per-level rate when level is 1
+export const formatMasteryPerkEffect = (perk: MasteryPerk, level: number): string => {
+  const value = perk.perLevel * level;
+  switch (perk.type) {
+    case 'damage':
+      return `+${Math.round(value * 100)}% damage`;
+    case 'time':
+      return `+${value}s to answer`;
+    case 'heal':
+      return `heal ${Math.round(value * 100)}% HP`;
+    case 'coins':
+      return `+${value} coins`;
+    case 'xp':
+      return `+${Math.round(value * 100)}% XP`;
+  }
+};
+
+// Adds mastery XP to a category and returns the milestone levels crossed on
+// the way so the caller can hand out their rewards
+export const addMasteryExperience = (
+  progression: ProgressionSystem,
+  category: string,
+  amount: number
+): { progression: ProgressionSystem; levelsGained: number; milestones: MasteryMilestone[] } => {
+  const previousLevel = getMasteryLevel(progression, category);
+  const experience = (progression.masteryExperience[category] || 0) + amount;
+  const level = getMasteryLevelFromXp(experience);
+
+  return {
+    progression: {
+      ...progression,
+      masteryExperience: { ...progression.masteryExperience, [category]: experience },
+      masteryLevels: { ...progression.masteryLevels, [category]: level },
+    },
+    levelsGained: level - previousLevel,
+    milestones: masteryMilestones.filter(m => m.level > previousLevel && m.level <= level),
+  };
+};
@@ -0,0 +1,46 @@
+import { MenuSkill, SkillsSystem } from '../types/game';
+import { BASE_ENCHANT_CHANCE } from './gameUtils';
+
+export const COIN_VACUUM_COINS_PER_MINUTE = 15;
+export const XP_SURGE_MULTIPLIER = 3;
+export const ENCHANTER_ENCHANT_CHANCE = 0.8;
+
+export const isMenuSkillExpired = (skill: MenuSkill, now: Date): boolean => {
+  return !!skill.isExpired || now.getTime() >= skill.expiresAt.getTime();
+};
+
+export const isMenuSkillActive = (skills: SkillsSystem, type: MenuSkill['type'], now: Date): boolean => {
+  const skill = skills.activeMenuSkill;
+  return !!skill && skill.type === type && !isMenuSkillExpired(skill, now);
+};
+
+// Flags the active skill once its time is up so the UI and roll checks can
+// rely on isExpired instead of comparing dates themselves
+export const refreshMenuSkillExpiry = (skills: SkillsSystem, now: Date): SkillsSystem => {
+  const skill = skills.activeMenuSkill;
+  if (!skill || skill.isExpired || !isMenuSkillExpired(skill, now)) return skills;
+
+  return {
+    ...skills,
+    activeMenuSkill: { ...skill, isExpired: true },
+  };
+};
+
+// Single-use skills such as Treasurer end as soon as they are used
+export const consumeMenuSkill = (skills: SkillsSystem): SkillsSystem => {
+  if (!skills.activeMenuSkill) return skills;
+
+  return {
+    ...skills,
+    activeMenuSkill: { ...skills.activeMenuSkill, isExpired: true },
+  };
+};
+
+export const getXpSurgeMultiplier = (skills: SkillsSystem, now: Date): number => {
+  return isMenuSkillActive(skills, 'xp_surge', now) ? XP_SURGE_MULTIPLIER : 1;
+};
+
+export const getEnchantChance = (skills: SkillsSystem, rarity: string, now: Date): number => {
+  const isEpicOrBetter = ['epic', 'legendary', 'mythical'].includes(rarity);
+  return isEpicOrBetter && isMenuSkillActive(skills, 'enchanter', now) ? ENCHANTER_ENCHANT_CHANCE : BASE_ENCHANT_CHANCE;
+};
@@ -0,0 +1,110 @@
+import { GemNode, Mining, MiningTool } from '../types/game';
+
+export const MINING_GRID_SIZE = 5;
+export const BASE_MINING_NODES = 1;
+export const SHINY_NODE_CHANCE = 0.05;
+export const NODES_PER_DEPTH = 20;
+export const MAX_MINE_DEPTH = 10;
+
+export const miningToolDefinitions: Omit<MiningTool, 'owned'>[] = [
+  {
+    id: 'iron_pickaxe',
+    name: 'Iron Pickaxe',
+    description: 'Each click chips 1 extra layer off a node',
+    cost: 500,
+    kind: 'power',
+    efficiency: 1,
+  },
+  {
+    id: 'diamond_pickaxe',
+    name: 'Diamond Pickaxe',
+    description: 'Each click chips 2 extra layers off a node',
+    cost: 2500,
+    kind: 'power',
+    efficiency: 2,
+  },
+  {
+    id: 'gem_radar',
+    name: 'Gem Radar',
+    description: 'Reveals 1 extra gem node in the mine',
+    cost: 1000,
+    kind: 'nodes',
+    efficiency: 1,
+  },
+  {
+    id: 'deep_scanner',
+    name: 'Deep Scanner',
+    description: 'Reveals 2 extra gem nodes in the mine',
+    cost: 5000,
+    kind: 'nodes',
+    efficiency: 2,
+  },
+];
+
+export const initializeMiningTools = (): MiningTool[] => {
+  return miningToolDefinitions.map(tool => ({ ...tool, owned: false }));
+};
+
+const getOwnedToolBonus = (tools: MiningTool[], kind: MiningTool['kind']): number => {
+  return tools.filter(t => t.owned && t.kind === kind).reduce((sum, t) => sum + t.efficiency, 0);
+};
+
+// Clicks' worth of damage each click deals to a node
+export const getMiningPower = (tools: MiningTool[]): number => {
+  return 1 + getOwnedToolBonus(tools, 'power');
+};
+
+export const getMaxMiningNodes = (tools: MiningTool[]): number => {
+  return BASE_MINING_NODES + getOwnedToolBonus(tools, 'nodes');
+};
+
+// Each depth level adds 50% to every node's yield
+export const getDepthYieldMultiplier = (depth: number): number => {
+  return 1 + (depth - 1) * 0.5;
+};
+
+export const getNodeYield = (node: GemNode, depth: number): number => {
+  const base = node.isShiny ? 1 : node.hardness;
+  return Math.max(1, Math.floor(base * getDepthYieldMultiplier(depth)));
+};
+
+// Hardness 1-3, plus one for every three depth levels; shiny nodes are one
+// harder still. Each point of hardness is one click with a bare hand.
+const createGemNode = (x: number, y: number, depth: number, forceShiny: boolean): GemNode => {
+  const isShiny = forceShiny || Math.random() < SHINY_NODE_CHANCE;
+  const hardness = 1 + Math.floor(Math.random() * 3) + Math.floor((depth - 1) / 3) + (isShiny ? 1 : 0);
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    x,
+    y,
+    clicks: 0,
+    maxClicks: hardness,
+    hardness,
+    isShiny,
+  };
+};
+
+// Tops the grid up to the node count the owned tools allow, on free cells
+export const fillMiningNodes = (mining: Mining, forceShiny: boolean): Mining => {
+  const target = Math.min(getMaxMiningNodes(mining.tools), MINING_GRID_SIZE * MINING_GRID_SIZE);
+  if (mining.nodes.length >= target) return mining;
+
+  const nodes = [...mining.nodes];
+  const freeCells: { x: number; y: number }[] = [];
+  for (let y = 0; y < MINING_GRID_SIZE; y++) {
+    for (let x = 0; x < MINING_GRID_SIZE; x++) {
+      if (!nodes.some(n => n.x === x && n.y === y)) freeCells.push({ x, y });
+    }
+  }
+
+  while (nodes.length < target && freeCells.length > 0) {
+    const [cell] = freeCells.splice(Math.floor(Math.random() * freeCells.length), 1);
+    nodes.push(createGemNode(cell.x, cell.y, mining.depth, forceShiny));
+  }
+
+  return { ...mining, nodes };
+};
+
+export const getDepthProgress = (mining: Mining): number => {
+  return mining.nodesMinedAtDepth / NODES_PER_DEPTH;
+};
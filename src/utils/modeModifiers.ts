@@ -0,0 +1,50 @@
+import { GameMode, GameModeModifiers } from '../types/game';
+
+const baseModifiers: GameModeModifiers = {
+  questionTime: 5,
+  playerAtk: 1,
+  playerDef: 1,
+  playerHp: 1,
+  enemyHp: 1,
+  enemyAtk: 1,
+  enemyDef: 1,
+  coinReward: 1,
+  gemReward: 1,
+};
+
+// Single source of truth for what each mode does. These numbers match the
+// descriptions shown in the game mode selector.
+export const gameModeModifiers: Record<GameMode['current'], GameModeModifiers> = {
+  normal: baseModifiers,
+  blitz: {
+    ...baseModifiers,
+    questionTime: 3,
+    coinReward: 1.25,
+    gemReward: 1.1,
+  },
+  bloodlust: {
+    ...baseModifiers,
+    questionTime: 3,
+    playerAtk: 2,
+    playerDef: 0.5,
+    playerHp: 0.5,
+  },
+  crazy: {
+    ...baseModifiers,
+    playerAtk: 0.5,
+    playerDef: 0.5,
+    playerHp: 0.5,
+    enemyHp: 3,
+    enemyAtk: 3,
+    enemyDef: 2,
+    coinReward: 6,
+    gemReward: 6,
+  },
+  survival: baseModifiers,
+  timeAttack: baseModifiers,
+  boss: baseModifiers,
+};
+
+export const getModeModifiers = (mode: GameMode['current']): GameModeModifiers => {
+  return gameModeModifiers[mode] || baseModifiers;
+};
@@ -0,0 +1,25 @@
+import { Multipliers } from '../types/game';
+
+export const MULTIPLIER_STEP = 0.1;
+
+// Base coin/gem prices and how fast each grows per 1.0x of multiplier
+const multiplierPricing: Record<keyof Multipliers, { coins: number; coinGrowth: number; gems: number; gemGrowth: number }> = {
+  coins: { coins: 1000, coinGrowth: 1.5, gems: 50, gemGrowth: 1.3 },
+  gems: { coins: 2000, coinGrowth: 1.6, gems: 100, gemGrowth: 1.4 },
+  atk: { coins: 5000, coinGrowth: 2, gems: 250, gemGrowth: 1.5 },
+  def: { coins: 5000, coinGrowth: 2, gems: 250, gemGrowth: 1.5 },
+  hp: { coins: 7500, coinGrowth: 2.2, gems: 375, gemGrowth: 1.6 },
+};
+
+export const getMultiplierCost = (type: keyof Multipliers, level: number): { coins: number; gems: number } => {
+  const pricing = multiplierPricing[type];
+  return {
+    coins: Math.floor(pricing.coins * Math.pow(pricing.coinGrowth, level - 1)),
+    gems: Math.floor(pricing.gems * Math.pow(pricing.gemGrowth, level - 1)),
+  };
+};
+
+// Rounded so repeated 0.1 steps don't drift
+export const getNextMultiplierLevel = (level: number): number => {
+  return Math.round((level + MULTIPLIER_STEP) * 10) / 10;
+};
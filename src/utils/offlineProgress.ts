@@ -0,0 +1,64 @@
+import { GameState, OfflineEarningsBreakdown } from '../types/game';
+import { getResearchBonuses } from './research';
+
+// Anything shorter than this is treated as a page refresh, not time away
+export const MIN_OFFLINE_SECONDS = 60;
+
+export const getOfflineCoinsPerHour = (zone: number): number => {
+  return 50 + zone * 25;
+};
+
+export const getOfflineGemsPerHour = (zone: number): number => {
+  return 1 + Math.floor(zone / 5);
+};
+
+// Base earnings scale with zone; Market Insight research and the garden's
+// growth bonus each add a percentage of the base
+export const calculateOfflineEarnings = (state: GameState, seconds: number): OfflineEarningsBreakdown => {
+  const hours = seconds / 3600;
+  const researchPercent = getResearchBonuses(state.research).offlineCoins;
+  const gardenPercent = state.gardenOfGrowth.isPlanted ? state.gardenOfGrowth.totalGrowthBonus / 100 : 0;
+
+  const baseCoins = getOfflineCoinsPerHour(state.zone) * hours;
+  const baseGems = getOfflineGemsPerHour(state.zone) * hours;
+
+  return {
+    zoneCoins: Math.floor(baseCoins),
+    researchCoins: Math.floor(baseCoins * researchPercent),
+    gardenCoins: Math.floor(baseCoins * gardenPercent),
+    zoneGems: Math.floor(baseGems),
+    gardenGems: Math.floor(baseGems * gardenPercent),
+  };
+};
+
+// Credits earnings for the time since the last save, capped at the configured
+// maximum. Unclaimed rewards from a previous visit are kept and added to.
+export const applyOfflineProgress = (state: GameState, now: Date): GameState => {
+  const { offlineProgress } = state;
+  const elapsedSeconds = Math.floor((now.getTime() - offlineProgress.lastSaveTime.getTime()) / 1000);
+  if (elapsedSeconds < MIN_OFFLINE_SECONDS) return state;
+
+  const seconds = Math.min(elapsedSeconds, offlineProgress.maxOfflineHours * 3600);
+  const earned = calculateOfflineEarnings(state, seconds);
+  const previous = offlineProgress.breakdown;
+
+  const breakdown: OfflineEarningsBreakdown = {
+    zoneCoins: previous.zoneCoins + earned.zoneCoins,
+    researchCoins: previous.researchCoins + earned.researchCoins,
+    gardenCoins: previous.gardenCoins + earned.gardenCoins,
+    zoneGems: previous.zoneGems + earned.zoneGems,
+    gardenGems: previous.gardenGems + earned.gardenGems,
+  };
+
+  return {
+    ...state,
+    offlineProgress: {
+      ...offlineProgress,
+      lastSaveTime: now,
+      offlineTime: offlineProgress.offlineTime + seconds,
+      offlineCoins: breakdown.zoneCoins + breakdown.researchCoins + breakdown.gardenCoins,
+      offlineGems: breakdown.zoneGems + breakdown.gardenGems,
+      breakdown,
+    },
+  };
+};
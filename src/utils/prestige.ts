@@ -0,0 +1,120 @@
+import { GameState, PrestigeUpgrade, ProgressionSystem } from '../types/game';
+
+export const PRESTIGE_ZONE_REQUIREMENT = 30;
+
+export const prestigeUpgradeDefinitions: PrestigeUpgrade[] = [
+  {
+    id: 'eternal_might',
+    name: 'Eternal Might',
+    description: '+10% ATK per level',
+    icon: '⚔️',
+    maxLevel: 10,
+    baseCost: 1,
+    effectPerLevel: 0.1
+  },
+  {
+    id: 'eternal_fortune',
+    name: 'Eternal Fortune',
+    description: '+15% coin rewards per level',
+    icon: '💰',
+    maxLevel: 10,
+    baseCost: 1,
+    effectPerLevel: 0.15
+  },
+  {
+    id: 'gem_resonance',
+    name: 'Gem Resonance',
+    description: '+15% gem rewards per level',
+    icon: '💎',
+    maxLevel: 10,
+    baseCost: 2,
+    effectPerLevel: 0.15
+  },
+  {
+    id: 'lucky_chests',
+    name: 'Lucky Chests',
+    description: '+5% chance per level for chests to roll one rarity higher',
+    icon: '🗝️',
+    maxLevel: 5,
+    baseCost: 3,
+    effectPerLevel: 0.05
+  }
+];
+
+export const canPrestige = (zone: number): boolean => {
+  return zone >= PRESTIGE_ZONE_REQUIREMENT;
+};
+
+// Points come mostly from zone depth, with smaller contributions from
+// banked coins and the coins sunk into research during the run
+export const calculatePrestigePoints = (zone: number, coins: number, researchSpent: number): number => {
+  if (!canPrestige(zone)) return 0;
+
+  const zonePoints = Math.floor(Math.pow(zone / 10, 1.5));
+  const coinPoints = Math.floor(Math.log10(Math.max(1, coins)));
+  const researchPoints = Math.floor(researchSpent / 5000);
+
+  return zonePoints + coinPoints + researchPoints;
+};
+
+export const getPrestigeUpgradeLevel = (progression: ProgressionSystem, upgradeId: string): number => {
+  return progression.prestigeUpgrades?.[upgradeId] || 0;
+};
+
+export const getPrestigeUpgradeCost = (upgrade: PrestigeUpgrade, currentLevel: number): number => {
+  return upgrade.baseCost * (currentLevel + 1);
+};
+
+const getUpgradeEffect = (progression: ProgressionSystem, upgradeId: string): number => {
+  const upgrade = prestigeUpgradeDefinitions.find(u => u.id === upgradeId);
+  if (!upgrade) return 0;
+  return getPrestigeUpgradeLevel(progression, upgradeId) * upgrade.effectPerLevel;
+};
+
+export const getPrestigeMultipliers = (progression: ProgressionSystem) => {
+  // Every prestige level also grants a flat +10% coin and gem rewards
+  const levelBonus = progression.prestigeLevel * 0.1;
+
+  return {
+    atk: 1 + getUpgradeEffect(progression, 'eternal_might'),
+    coins: 1 + levelBonus + getUpgradeEffect(progression, 'eternal_fortune'),
+    gems: 1 + levelBonus + getUpgradeEffect(progression, 'gem_resonance'),
+    chestLuck: getUpgradeEffect(progression, 'lucky_chests'),
+  };
+};
+
+// Builds the post-prestige state. Everything not listed here comes from the
+// fresh state: coins, gems, zone, stats, inventory, research, game mode,
+// relic market and any combat in progress.
+export const applyPrestigeReset = (state: GameState, freshState: GameState, earnedPoints: number): GameState => {
+  return {
+    ...freshState,
+    // Carried over between runs
+    isPremium: state.isPremium,
+    achievements: state.achievements,
+    collectionBook: state.collectionBook,
+    playerTags: state.playerTags,
+    statistics: state.statistics,
+    cheats: state.cheats,
+    mining: state.mining,
+    lootPity: state.lootPity,
+    questionPacks: state.questionPacks,
+    questionHistory: state.questionHistory,
+    difficultyRatings: state.difficultyRatings,
+    multipliers: state.multipliers,
+    dailyRewards: state.dailyRewards,
+    offlineProgress: state.offlineProgress,
+    gardenOfGrowth: state.gardenOfGrowth,
+    settings: state.settings,
+    skills: state.skills,
+    knowledgeStreak: {
+      ...freshState.knowledgeStreak,
+      best: state.knowledgeStreak.best,
+    },
+    progression: {
+      ...state.progression,
+      prestigeLevel: state.progression.prestigeLevel + 1,
+      prestigePoints: state.progression.prestigePoints + earnedPoints,
+    },
+  };
+};
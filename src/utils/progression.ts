@@ -0,0 +1,99 @@
+import { ProgressionSkill, ProgressionSystem } from '../types/game';
+
+export const XP_PER_CORRECT_ANSWER = 5;
+
+export const skillDefinitions: ProgressionSkill[] = [
+  {
+    id: 'combat_mastery',
+    name: 'Combat Mastery',
+    description: '+5% ATK and DEF per level',
+    maxLevel: 10,
+    cost: 1
+  },
+  {
+    id: 'knowledge_boost',
+    name: 'Knowledge Boost',
+    description: '+10% experience gain per level',
+    maxLevel: 5,
+    cost: 2
+  },
+  {
+    id: 'treasure_hunter',
+    name: 'Treasure Hunter',
+    description: '+15% coin and gem rewards per level',
+    maxLevel: 8,
+    cost: 2
+  },
+  {
+    id: 'durability_expert',
+    name: 'Durability Expert',
+    description: 'Items lose durability 20% slower per level',
+    maxLevel: 5,
+    cost: 3
+  },
+  {
+    id: 'streak_master',
+    name: 'Streak Master',
+    description: 'Knowledge streaks build 25% faster per level',
+    maxLevel: 4,
+    cost: 3
+  },
+  {
+    id: 'health_regeneration',
+    name: 'Health Regeneration',
+    description: 'Restore 10% HP after each victory per level',
+    maxLevel: 3,
+    cost: 4
+  }
+];
+
+// Skill levels are stored as repeated ids in unlockedSkills
+export const getSkillLevel = (progression: ProgressionSystem, skillId: string): number => {
+  return progression.unlockedSkills.filter(s => s === skillId).length;
+};
+
+export const calculateExperienceToNext = (level: number): number => {
+  return Math.floor(100 * Math.pow(1.25, level - 1));
+};
+
+export const calculateVictoryExperience = (zone: number): number => {
+  return 20 + zone * 5;
+};
+
+export const getSkillEffects = (progression: ProgressionSystem) => {
+  return {
+    atkMultiplier: 1 + getSkillLevel(progression, 'combat_mastery') * 0.05,
+    defMultiplier: 1 + getSkillLevel(progression, 'combat_mastery') * 0.05,
+    xpMultiplier: 1 + getSkillLevel(progression, 'knowledge_boost') * 0.1,
+    rewardMultiplier: 1 + getSkillLevel(progression, 'treasure_hunter') * 0.15,
+    durabilityLossMultiplier: Math.max(0, 1 - getSkillLevel(progression, 'durability_expert') * 0.2),
+    streakGrowthMultiplier: 1 + getSkillLevel(progression, 'streak_master') * 0.25,
+    victoryHealPercent: getSkillLevel(progression, 'health_regeneration') * 0.1,
+  };
+};
+
+// Applies skill and prestige XP bonuses plus any temporary multiplier (such
+// as XP Surge), then rolls over as many levels as the experience covers. Each
+// level grants one skill point, with a bonus point every fifth level.
+export const addExperience = (progression: ProgressionSystem, baseAmount: number, bonusMultiplier = 1): ProgressionSystem => {
+  const prestigeBonus = 1 + progression.prestigeLevel * 0.05;
+  const amount = Math.floor(baseAmount * getSkillEffects(progression).xpMultiplier * prestigeBonus * bonusMultiplier);
+
+  let { level, experience, experienceToNext, skillPoints } = progression;
+  experience += amount;
+
+  while (experience >= experienceToNext) {
+    experience -= experienceToNext;
+    level += 1;
+    skillPoints += level % 5 === 0 ? 2 : 1;
+    experienceToNext = calculateExperienceToNext(level);
+  }
+
+  return {
+    ...progression,
+    level,
+    experience,
+    experienceToNext,
+    skillPoints,
+  };
+};
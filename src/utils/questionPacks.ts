@@ -0,0 +1,261 @@
+import { QuestionPack, QuestionPacks, TriviaQuestion } from '../types/game';
+import { triviaQuestions } from './triviaQuestions';
+
+// Bump when the file format changes shape; older files are then rejected
+// with a clear message instead of half-loading
+export const QUESTION_PACK_FORMAT_VERSION = 1;
+export const BUILT_IN_PACK_ID = 'core';
+
+export const builtInQuestionPack: QuestionPack = {
+  id: BUILT_IN_PACK_ID,
+  name: 'Hugoland Classics',
+  version: 1,
+  locale: 'en',
+  questions: triviaQuestions,
+};
+
+export interface QuestionPackError {
+  line: number;
+  message: string;
+}
+
+class PackSyntaxError extends Error {
+  constructor(message: string, public line: number) {
+    super(message);
+  }
+}
+
+// JSON.parse can't say where a value came from, so this small parser records
+// the line every value starts on, keyed by its path (e.g. "questions[2].type")
+const parseJsonWithLines = (text: string): { value: unknown; lines: Map<string, number> } => {
+  const lines = new Map<string, number>();
+  let pos = 0;
+  let line = 1;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) {
+      if (text[pos] === '\n') line++;
+      pos++;
+    }
+  };
+
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (text[pos] !== char) {
+      throw new PackSyntaxError(pos >= text.length ? `Expected "${char}" but the file ended` : `Expected "${char}" but found "${text[pos]}"`, line);
+    }
+    pos++;
+  };
+
+  const matchToken = (pattern: RegExp): string | null => {
+    pattern.lastIndex = pos;
+    const match = pattern.exec(text);
+    if (!match) return null;
+    pos += match[0].length;
+    return match[0];
+  };
+
+  const parseValue = (path: string): unknown => {
+    skipWhitespace();
+    lines.set(path, line);
+    const char = text[pos];
+
+    if (char === '{') {
+      pos++;
+      const result: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+        return result;
+      }
+      for (;;) {
+        skipWhitespace();
+        const key = matchToken(/"(?:[^"\\\n]|\\.)*"/y);
+        if (key === null) throw new PackSyntaxError('Expected a quoted property name', line);
+        const name = JSON.parse(key) as string;
+        expect(':');
+        result[name] = parseValue(path ? `${path}.${name}` : name);
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        expect('}');
+        return result;
+      }
+    }
+
+    if (char === '[') {
+      pos++;
+      const result: unknown[] = [];
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+        return result;
+      }
+      for (;;) {
+        result.push(parseValue(`${path}[${result.length}]`));
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        expect(']');
+        return result;
+      }
+    }
+
+    const token = matchToken(/"(?:[^"\\\n]|\\.)*"|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y);
+    if (token === null) {
+      throw new PackSyntaxError(pos >= text.length ? 'Unexpected end of file' : `Unexpected "${char}"`, line);
+    }
+    return JSON.parse(token);
+  };
+
+  const value = parseValue('');
+  skipWhitespace();
+  if (pos < text.length) throw new PackSyntaxError('Unexpected content after the pack', line);
+  return { value, lines };
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isNonEmptyString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.trim().length > 0;
+};
+
+const difficulties: TriviaQuestion['difficulty'][] = ['easy', 'medium', 'hard'];
+
+// Parses and schema-checks a pack file. Every problem found is reported with
+// the line it is on; a pack is only returned when there are none.
+export const parseQuestionPack = (text: string): { pack: QuestionPack | null; errors: QuestionPackError[] } => {
+  let parsed: { value: unknown; lines: Map<string, number> };
+  try {
+    parsed = parseJsonWithLines(text);
+  } catch (error) {
+    const line = error instanceof PackSyntaxError ? error.line : 1;
+    return { pack: null, errors: [{ line, message: `Invalid JSON: ${(error as Error).message}` }] };
+  }
+
+  const { value: root, lines } = parsed;
+  const errors: QuestionPackError[] = [];
+  // Reports on the value's own line, or its nearest parent's if it is missing
+  const report = (path: string, message: string) => {
+    let lookup = path;
+    while (!lines.has(lookup) && lookup) {
+      lookup = lookup.replace(/(\.[^.[\]]+|\[\d+\])$/, '');
+    }
+    errors.push({ line: lines.get(lookup) ?? 1, message });
+  };
+
+  if (!isPlainObject(root)) {
+    return { pack: null, errors: [{ line: 1, message: 'A question pack must be a JSON object' }] };
+  }
+
+  if (root.formatVersion !== QUESTION_PACK_FORMAT_VERSION) {
+    report('formatVersion', `formatVersion must be ${QUESTION_PACK_FORMAT_VERSION}`);
+  }
+  if (!isNonEmptyString(root.id)) report('id', 'id must be a non-empty string');
+  else if (root.id === BUILT_IN_PACK_ID) report('id', `id "${BUILT_IN_PACK_ID}" is reserved for the built-in pack`);
+  if (!isNonEmptyString(root.name)) report('name', 'name must be a non-empty string');
+  if (typeof root.version !== 'number' || !Number.isInteger(root.version) || root.version < 1) {
+    report('version', 'version must be a whole number of at least 1');
+  }
+  if (!isNonEmptyString(root.locale)) report('locale', 'locale must be a language code such as "en"');
+  if (root.author !== undefined && typeof root.author !== 'string') report('author', 'author must be a string');
+
+  const questions: TriviaQuestion[] = [];
+  if (!Array.isArray(root.questions) || root.questions.length === 0) {
+    report('questions', 'questions must be a non-empty array');
+  } else {
+    const seenIds = new Set<string>();
+    root.questions.forEach((q: unknown, index: number) => {
+      const path = `questions[${index}]`;
+      const errorCount = errors.length;
+      if (!isPlainObject(q)) {
+        report(path, `Question ${index + 1} must be an object`);
+        return;
+      }
+
+      if (!isNonEmptyString(q.id)) report(`${path}.id`, `Question ${index + 1}: id must be a non-empty string`);
+      else if (seenIds.has(q.id)) report(`${path}.id`, `Question ${index + 1}: id "${q.id}" is used more than once`);
+      else seenIds.add(q.id);
+
+      if (!isNonEmptyString(q.question)) report(`${path}.question`, `Question ${index + 1}: question must be a non-empty string`);
+      if (!isNonEmptyString(q.category)) report(`${path}.category`, `Question ${index + 1}: category must be a non-empty string`);
+      if (!difficulties.includes(q.difficulty as TriviaQuestion['difficulty'])) {
+        report(`${path}.difficulty`, `Question ${index + 1}: difficulty must be one of ${difficulties.join(', ')}`);
+      }
+      if (q.locale !== undefined && !isNonEmptyString(q.locale)) report(`${path}.locale`, `Question ${index + 1}: locale must be a language code`);
+      if (q.aliases !== undefined && (!Array.isArray(q.aliases) || !q.aliases.every(isNonEmptyString))) {
+        report(`${path}.aliases`, `Question ${index + 1}: aliases must be a list of non-empty strings`);
+      }
+      if (q.numericTolerance !== undefined && (typeof q.numericTolerance !== 'number' || q.numericTolerance < 0)) {
+        report(`${path}.numericTolerance`, `Question ${index + 1}: numericTolerance must be a number of at least 0`);
+      }
+
+      if (q.type === 'multiple-choice') {
+        const options = q.options;
+        if (!Array.isArray(options) || options.length < 2 || !options.every(isNonEmptyString)) {
+          report(`${path}.options`, `Question ${index + 1}: options must list at least two non-empty strings`);
+        } else if (typeof q.correctAnswer !== 'number' || !Number.isInteger(q.correctAnswer) || q.correctAnswer < 0 || q.correctAnswer >= options.length) {
+          report(`${path}.correctAnswer`, `Question ${index + 1}: correctAnswer must be the index of one of the options (0-${options.length - 1})`);
+        }
+      } else if (q.type === 'type-answer') {
+        if (!isNonEmptyString(q.correctAnswer)) report(`${path}.correctAnswer`, `Question ${index + 1}: correctAnswer must be the expected answer text`);
+      } else {
+        report(`${path}.type`, `Question ${index + 1}: type must be "multiple-choice" or "type-answer"`);
+      }
+
+      if (errors.length > errorCount) return;
+      questions.push({
+        // Prefixed so ids only need to be unique within their own pack
+        id: `${root.id}:${q.id}`,
+        question: q.question as string,
+        type: q.type as TriviaQuestion['type'],
+        options: q.type === 'multiple-choice' ? q.options as string[] : undefined,
+        correctAnswer: q.correctAnswer as number | string,
+        category: q.category as string,
+        difficulty: q.difficulty as TriviaQuestion['difficulty'],
+        locale: (q.locale as string | undefined) || (root.locale as string),
+        aliases: q.aliases as string[] | undefined,
+        numericTolerance: q.numericTolerance as number | undefined,
+      });
+    });
+  }
+
+  if (errors.length > 0) {
+    return { pack: null, errors: errors.sort((a, b) => a.line - b.line) };
+  }
+
+  return {
+    pack: {
+      id: root.id as string,
+      name: root.name as string,
+      version: root.version as number,
+      locale: root.locale as string,
+      author: root.author as string | undefined,
+      questions,
+    },
+    errors: [],
+  };
+};
+
+export const getAllQuestionPacks = (questionPacks: QuestionPacks): QuestionPack[] => {
+  return [builtInQuestionPack, ...questionPacks.imported];
+};
+
+export const isQuestionPackEnabled = (questionPacks: QuestionPacks, packId: string): boolean => {
+  return !questionPacks.disabledPackIds.includes(packId);
+};
+
+// Falls back to the built-in questions if every pack is turned off, so a
+// fight always has something to ask
+export const getEnabledQuestions = (questionPacks: QuestionPacks): TriviaQuestion[] => {
+  const questions = getAllQuestionPacks(questionPacks)
+    .filter(pack => isQuestionPackEnabled(questionPacks, pack.id))
+    .flatMap(pack => pack.questions);
+  return questions.length > 0 ? questions : triviaQuestions;
+};
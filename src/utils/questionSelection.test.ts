@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { QuestionHistory, QuestionHistoryEntry, TriviaQuestion } from '../types/game';
+import { REVIEW_INTERVALS, recordQuestionAnswer, selectQuestion } from './questionSelection';
+
+const question = (id: string): TriviaQuestion => ({
+  id,
+  question: `Question ${id}`,
+  type: 'type-answer',
+  correctAnswer: id,
+  category: 'Math',
+  difficulty: 'easy',
+});
+
+const entry = (fields: Partial<QuestionHistoryEntry>): QuestionHistoryEntry => ({
+  lastSeen: 0,
+  timesCorrect: 0,
+  timesWrong: 0,
+  box: 0,
+  dueAt: 0,
+  ...fields,
+});
+
+const questions = ['a', 'b', 'c', 'd'].map(question);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('recordQuestionAnswer', () => {
+  const empty: QuestionHistory = { answered: 0, entries: {} };
+
+  it('schedules a miss for review after the first interval', () => {
+    const history = recordQuestionAnswer(empty, 'a', false);
+    expect(history.answered).toBe(1);
+    expect(history.entries.a).toEqual({ lastSeen: 1, timesCorrect: 0, timesWrong: 1, box: 0, dueAt: 1 + REVIEW_INTERVALS[0] });
+  });
+
+  it('pushes each correct answer one interval further out', () => {
+    const once = recordQuestionAnswer(empty, 'a', true);
+    const twice = recordQuestionAnswer(once, 'a', true);
+    expect(once.entries.a.dueAt).toBe(1 + REVIEW_INTERVALS[0]);
+    expect(twice.entries.a.box).toBe(1);
+    expect(twice.entries.a.dueAt).toBe(2 + REVIEW_INTERVALS[1]);
+  });
+
+  it('stops at the last interval', () => {
+    let history = empty;
+    for (let i = 0; i < REVIEW_INTERVALS.length + 3; i++) {
+      history = recordQuestionAnswer(history, 'a', true);
+    }
+    expect(history.entries.a.box).toBe(REVIEW_INTERVALS.length - 1);
+  });
+
+  it('drops a question back to the first box after a miss', () => {
+    const learned = recordQuestionAnswer(recordQuestionAnswer(empty, 'a', true), 'a', true);
+    const missed = recordQuestionAnswer(learned, 'a', false);
+    expect(missed.entries.a).toMatchObject({ box: 0, timesCorrect: 2, timesWrong: 1, dueAt: 3 + REVIEW_INTERVALS[0] });
+  });
+});
+
+describe('selectQuestion', () => {
+  // a and b were missed and are overdue (a more so); c and d were answered
+  // correctly and are not due yet
+  const history: QuestionHistory = {
+    answered: 100,
+    entries: {
+      a: entry({ lastSeen: 80, timesWrong: 1, dueAt: 85 }),
+      b: entry({ lastSeen: 90, timesWrong: 1, dueAt: 95 }),
+      c: entry({ lastSeen: 70, timesCorrect: 1, box: 2, dueAt: 110 }),
+      d: entry({ lastSeen: 60, timesCorrect: 1, box: 3, dueAt: 160 }),
+    },
+  };
+
+  it('reviews the most overdue missed question first', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(selectQuestion(questions, history).id).toBe('a');
+  });
+
+  it('prefers a question never asked over a due one when not reviewing', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    expect(selectQuestion([...questions, question('e')], history).id).toBe('e');
+  });
+
+  it('falls back to any due question when nothing is unseen', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    expect(['a', 'b']).toContain(selectQuestion(questions, history).id);
+  });
+
+  it('asks the question seen longest ago when nothing is due', () => {
+    const notDue: QuestionHistory = {
+      answered: 100,
+      entries: Object.fromEntries(questions.map((q, i) => [q.id, entry({ lastSeen: 50 + i * 10, timesCorrect: 1, box: 4, dueAt: 300 })])),
+    };
+    expect(selectQuestion(questions, notDue).id).toBe('a');
+  });
+
+  it('skips questions seen within the recent window', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const recent: QuestionHistory = {
+      ...history,
+      entries: { ...history.entries, a: entry({ lastSeen: 99, timesWrong: 1, dueAt: 85 }) },
+    };
+    expect(selectQuestion(questions, recent).id).toBe('b');
+  });
+
+  it('never picks an excluded question while others remain', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(selectQuestion(questions, history, ['a']).id).toBe('b');
+  });
+});
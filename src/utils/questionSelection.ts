@@ -0,0 +1,67 @@
+import { QuestionHistory, QuestionHistoryEntry, TriviaQuestion } from '../types/game';
+
+// Questions answered before a correct answer in each box comes due again
+export const REVIEW_INTERVALS = [5, 15, 40, 100, 250];
+// A question asked within this many answers is not asked again if the pool
+// has anything else to offer
+export const RECENT_WINDOW = 20;
+// Chance that a due missed question is chosen over a fresh one
+export const REVIEW_CHANCE = 0.5;
+
+const pickRandom = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+// Updates a question's schedule after it is answered. A miss drops it to the
+// first box so it resurfaces soon; a correct answer pushes it further out.
+export const recordQuestionAnswer = (history: QuestionHistory, questionId: string, correct: boolean): QuestionHistory => {
+  const answered = history.answered + 1;
+  const previous = history.entries[questionId];
+  const box = correct ? Math.min((previous?.box ?? -1) + 1, REVIEW_INTERVALS.length - 1) : 0;
+
+  const entry: QuestionHistoryEntry = {
+    lastSeen: answered,
+    timesCorrect: (previous?.timesCorrect || 0) + (correct ? 1 : 0),
+    timesWrong: (previous?.timesWrong || 0) + (correct ? 0 : 1),
+    box,
+    dueAt: answered + REVIEW_INTERVALS[box],
+  };
+
+  return {
+    answered,
+    entries: { ...history.entries, [questionId]: entry },
+  };
+};
+
+// Picks from `questions` in this order of preference, never repeating a
+// question seen in the last RECENT_WINDOW answers unless nothing else is left:
+// 1. a missed question whose review is due (most overdue first), half the time
+// 2. a question never asked before
+// 3. any question whose review is due
+// 4. the question seen longest ago
+export const selectQuestion = (questions: TriviaQuestion[], history: QuestionHistory, excludeIds: string[] = []): TriviaQuestion => {
+  const { answered, entries } = history;
+  const window = Math.min(RECENT_WINDOW, Math.floor(questions.length / 2));
+
+  const available = questions.filter(q => !excludeIds.includes(q.id));
+  const pool = available.length > 0 ? available : questions;
+  const notRecent = pool.filter(q => {
+    const entry = entries[q.id];
+    return !entry || answered - entry.lastSeen >= window;
+  });
+  const candidates = notRecent.length > 0 ? notRecent : pool;
+
+  const dueReviews = candidates
+    .filter(q => {
+      const entry = entries[q.id];
+      return !!entry && entry.timesWrong > 0 && entry.box === 0 && entry.dueAt <= answered;
+    })
+    .sort((a, b) => entries[a.id].dueAt - entries[b.id].dueAt);
+  if (dueReviews.length > 0 && Math.random() < REVIEW_CHANCE) return dueReviews[0];
+
+  const unseen = candidates.filter(q => !entries[q.id]);
+  if (unseen.length > 0) return pickRandom(unseen);
+
+  const due = candidates.filter(q => entries[q.id].dueAt <= answered);
+  if (due.length > 0) return pickRandom(due);
+
+  return candidates.reduce((oldest, q) => (entries[q.id]?.lastSeen ?? 0) < (entries[oldest.id]?.lastSeen ?? 0) ? q : oldest);
+};
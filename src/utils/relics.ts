@@ -0,0 +1,43 @@
+import { Inventory, RelicItem, RelicLoadout } from '../types/game';
+
+export const MAX_EQUIPPED_RELICS = 5;
+export const MAX_RELIC_LOADOUTS = 5;
+export const RELIC_SELL_REFUND_RATE = 0.5;
+
+const RELIC_BASE_UPGRADE_COST = 25;
+
+// Upgrade costs grow by 1.5x per level, so the total spent can be replayed
+// from the level alone
+export const getRelicUpgradeSpend = (relic: RelicItem): number => {
+  let spent = 0;
+  let cost = RELIC_BASE_UPGRADE_COST;
+  for (let level = 1; level < relic.level; level++) {
+    spent += cost;
+    cost = Math.floor(cost * 1.5);
+  }
+  return spent;
+};
+
+export const getRelicSellValue = (relic: RelicItem): number => {
+  return Math.floor((relic.cost + getRelicUpgradeSpend(relic)) * RELIC_SELL_REFUND_RATE);
+};
+
+export const createRelicLoadout = (name: string, relics: RelicItem[]): RelicLoadout => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name,
+  relicIds: relics.slice(0, MAX_EQUIPPED_RELICS).map(r => r.id),
+});
+
+// Relics sold since the loadout was saved are skipped
+export const getLoadoutRelics = (inventory: Inventory, loadout: RelicLoadout): RelicItem[] => {
+  return loadout.relicIds
+    .map(id => inventory.relics.find(r => r.id === id))
+    .filter((relic): relic is RelicItem => !!relic);
+};
+
+export const removeRelicFromLoadouts = (loadouts: RelicLoadout[], relicId: string): RelicLoadout[] => {
+  return loadouts.map(loadout => ({
+    ...loadout,
+    relicIds: loadout.relicIds.filter(id => id !== relicId),
+  }));
+};
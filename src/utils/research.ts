@@ -0,0 +1,144 @@
+import { Research, ResearchBranch, ResearchNode } from '../types/game';
+
+export const researchBranches: { id: ResearchBranch; name: string }[] = [
+  { id: 'offense', name: 'Offense' },
+  { id: 'defense', name: 'Defense' },
+  { id: 'fortune', name: 'Fortune' },
+];
+
+// Nodes are listed root first within each branch
+export const researchNodeDefinitions: ResearchNode[] = [
+  {
+    id: 'weapon_drills',
+    name: 'Weapon Drills',
+    description: '+10% ATK per level',
+    icon: '⚔️',
+    branch: 'offense',
+    maxLevel: 10,
+    baseCost: 100,
+    effectPerLevel: 0.1,
+    requires: [],
+  },
+  {
+    id: 'quick_thinking',
+    name: 'Quick Thinking',
+    description: '+0.5 seconds to answer each question per level',
+    icon: '⏱️',
+    branch: 'offense',
+    maxLevel: 4,
+    baseCost: 250,
+    effectPerLevel: 0.5,
+    requires: [{ nodeId: 'weapon_drills', level: 3 }],
+  },
+  {
+    id: 'steady_focus',
+    name: 'Steady Focus',
+    description: 'A wrong answer keeps 20% more of your knowledge streak per level',
+    icon: '🔥',
+    branch: 'offense',
+    maxLevel: 3,
+    baseCost: 400,
+    effectPerLevel: 0.2,
+    requires: [{ nodeId: 'quick_thinking', level: 2 }],
+  },
+  {
+    id: 'armor_drills',
+    name: 'Armor Drills',
+    description: '+10% DEF per level',
+    icon: '🛡️',
+    branch: 'defense',
+    maxLevel: 10,
+    baseCost: 100,
+    effectPerLevel: 0.1,
+    requires: [],
+  },
+  {
+    id: 'vitality',
+    name: 'Vitality',
+    description: '+10% max HP per level',
+    icon: '❤️',
+    branch: 'defense',
+    maxLevel: 10,
+    baseCost: 150,
+    effectPerLevel: 0.1,
+    requires: [{ nodeId: 'armor_drills', level: 2 }],
+  },
+  {
+    id: 'market_insight',
+    name: 'Market Insight',
+    description: '+10% offline coin earnings per level',
+    icon: '💰',
+    branch: 'fortune',
+    maxLevel: 10,
+    baseCost: 100,
+    effectPerLevel: 0.1,
+    requires: [],
+  },
+  {
+    id: 'treasure_mapping',
+    name: 'Treasure Mapping',
+    description: '+3% chance per level for chests to roll one rarity higher',
+    icon: '🗝️',
+    branch: 'fortune',
+    maxLevel: 5,
+    baseCost: 300,
+    effectPerLevel: 0.03,
+    requires: [{ nodeId: 'market_insight', level: 3 }],
+  },
+];
+
+export const getResearchNode = (nodeId: string): ResearchNode | undefined => {
+  return researchNodeDefinitions.find(n => n.id === nodeId);
+};
+
+export const getResearchNodeLevel = (research: Research, nodeId: string): number => {
+  return research.nodes[nodeId] || 0;
+};
+
+// Each level costs a quarter of the base more than the last
+export const getResearchNodeCost = (node: ResearchNode, currentLevel: number): number => {
+  return Math.floor(node.baseCost * (1 + currentLevel * 0.25));
+};
+
+export const isResearchNodeUnlocked = (research: Research, node: ResearchNode): boolean => {
+  return node.requires.every(req => getResearchNodeLevel(research, req.nodeId) >= req.level);
+};
+
+export const getResearchEffect = (research: Research, nodeId: string): number => {
+  const node = getResearchNode(nodeId);
+  if (!node) return 0;
+  return getResearchNodeLevel(research, nodeId) * node.effectPerLevel;
+};
+
+export const getResearchBonuses = (research: Research) => {
+  return {
+    atk: 1 + getResearchEffect(research, 'weapon_drills'),
+    def: 1 + getResearchEffect(research, 'armor_drills'),
+    hp: 1 + getResearchEffect(research, 'vitality'),
+    questionTime: getResearchEffect(research, 'quick_thinking'),
+    streakRetention: getResearchEffect(research, 'steady_focus'),
+    offlineCoins: getResearchEffect(research, 'market_insight'),
+    chestLuck: getResearchEffect(research, 'treasure_mapping'),
+  };
+};
+
+// Buys one level of a node, or returns null if it is maxed or still locked.
+// Affordability is left to the caller.
+export const purchaseResearchNode = (research: Research, nodeId: string): { research: Research; cost: number } | null => {
+  const node = getResearchNode(nodeId);
+  if (!node || !isResearchNodeUnlocked(research, node)) return null;
+
+  const currentLevel = getResearchNodeLevel(research, nodeId);
+  if (currentLevel >= node.maxLevel) return null;
+
+  const cost = getResearchNodeCost(node, currentLevel);
+  return {
+    cost,
+    research: {
+      ...research,
+      level: research.level + 1,
+      totalSpent: research.totalSpent + cost,
+      nodes: { ...research.nodes, [nodeId]: currentLevel + 1 },
+    },
+  };
+};
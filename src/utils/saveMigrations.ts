@@ -0,0 +1,87 @@
+import { GameState } from '../types/game';
+
+type SaveData = Record<string, unknown>;
+
+interface SaveMigration {
+  version: number;
+  description: string;
+  migrate: (save: SaveData) => SaveData;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+};
+
+// Each entry upgrades a save from `version - 1` to `version`. Saves written
+// before versioning existed are treated as version 0. Append new steps to the
+// end and bump CURRENT_SAVE_VERSION; never edit a step that has shipped.
+export const saveMigrations: SaveMigration[] = [
+  {
+    version: 1,
+    description: 'Introduce save versioning and prestige upgrade tracking',
+    migrate: (save) => {
+      const progression = isPlainObject(save.progression) ? save.progression : {};
+      return {
+        ...save,
+        progression: {
+          ...progression,
+          unlockedSkills: Array.isArray(progression.unlockedSkills) ? progression.unlockedSkills : [],
+          prestigeUpgrades: isPlainObject(progression.prestigeUpgrades) ? progression.prestigeUpgrades : {},
+        },
+      };
+    },
+  },
+  {
+    version: 2,
+    description: 'Split the shared research level into a research tree, refunding coins spent on it',
+    migrate: (save) => {
+      const research = isPlainObject(save.research) ? save.research : {};
+      const refund = typeof research.totalSpent === 'number' ? research.totalSpent : 0;
+      return {
+        ...save,
+        coins: (typeof save.coins === 'number' ? save.coins : 0) + refund,
+        research: { level: 0, totalSpent: 0, nodes: {} },
+      };
+    },
+  },
+];
+
+export const CURRENT_SAVE_VERSION = saveMigrations[saveMigrations.length - 1].version;
+
+export const getSaveVersion = (save: SaveData): number => {
+  return typeof save.saveVersion === 'number' ? save.saveVersion : 0;
+};
+
+// Recursively fills in fields the save is missing. Arrays, dates and
+// primitives from the save win as-is; only plain objects are merged.
+export const mergeWithDefaults = <T>(defaults: T, saved: unknown): T => {
+  if (!isPlainObject(defaults) || !isPlainObject(saved)) {
+    return (saved === undefined ? defaults : saved) as T;
+  }
+
+  const merged: Record<string, unknown> = { ...defaults };
+  Object.keys(saved).forEach(key => {
+    merged[key] = mergeWithDefaults(defaults[key], saved[key]);
+  });
+  return merged as T;
+};
+
+export const migrateSave = (save: unknown, defaults: GameState): GameState => {
+  if (!isPlainObject(save)) {
+    throw new Error('Save data is not an object');
+  }
+
+  const fromVersion = getSaveVersion(save);
+  if (fromVersion > CURRENT_SAVE_VERSION) {
+    throw new Error(`Save version ${fromVersion} is newer than supported version ${CURRENT_SAVE_VERSION}`);
+  }
+
+  const migrated = saveMigrations
+    .filter(m => m.version > fromVersion)
+    .reduce((data, m) => m.migrate(data), save);
+
+  return {
+    ...mergeWithDefaults(defaults, migrated),
+    saveVersion: CURRENT_SAVE_VERSION,
+  };
+};
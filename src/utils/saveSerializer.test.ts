@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialGameState } from '../hooks/useGameState';
+import { CURRENT_SAVE_VERSION, mergeWithDefaults, migrateSave, saveMigrations } from './saveMigrations';
+import { deserializeGameState, serializeGameState } from './saveSerializer';
+import v0Save from './__fixtures__/saves/v0.json?raw';
+import v1Save from './__fixtures__/saves/v1.json?raw';
+import tooNewSave from './__fixtures__/saves/too-new.json?raw';
+
+describe('saveMigrations', () => {
+  it('numbers every step consecutively from 1', () => {
+    expect(saveMigrations.map(m => m.version)).toEqual(saveMigrations.map((_, i) => i + 1));
+  });
+
+  it('adds progression tracking to a v0 save', () => {
+    const migrated = saveMigrations[0].migrate(JSON.parse(v0Save));
+    expect(migrated.progression).toMatchObject({ unlockedSkills: [], prestigeUpgrades: {}, level: 4 });
+  });
+
+  it('refunds research spending when moving to the research tree', () => {
+    const migrated = saveMigrations[1].migrate(JSON.parse(v1Save));
+    expect(migrated.coins).toBe(3000 + 1200);
+    expect(migrated.research).toEqual({ level: 0, totalSpent: 0, nodes: {} });
+  });
+});
+
+describe('mergeWithDefaults', () => {
+  it('fills missing nested fields and keeps saved values', () => {
+    const merged = mergeWithDefaults({ a: 1, nested: { b: 2, c: 3 }, list: [1, 2] }, { nested: { b: 5 }, list: [] });
+    expect(merged).toEqual({ a: 1, nested: { b: 5, c: 3 }, list: [] });
+  });
+});
+
+describe('migrateSave', () => {
+  it('stamps the current version', () => {
+    expect(migrateSave(JSON.parse(v0Save), createInitialGameState()).saveVersion).toBe(CURRENT_SAVE_VERSION);
+  });
+
+  it('rejects a save from a newer release', () => {
+    expect(() => migrateSave(JSON.parse(tooNewSave), createInitialGameState())).toThrow(/newer than supported/);
+  });
+
+  it('rejects data that is not an object', () => {
+    expect(() => migrateSave([], createInitialGameState())).toThrow(/not an object/);
+  });
+});
+
+describe('deserializeGameState', () => {
+  it('loads a v0 save with dates revived and new systems defaulted', () => {
+    const state = deserializeGameState(v0Save, createInitialGameState());
+
+    expect(state.coins).toBe(1250 + 450);
+    expect(state.zone).toBe(7);
+    expect(state.research.nodes).toEqual({});
+    expect(state.inventory.currentWeapon?.name).toBe('Iron Sword');
+    expect(state.achievements[0].unlockedAt).toBeInstanceOf(Date);
+    expect(state.dailyRewards.rewardHistory[0].claimDate).toBeInstanceOf(Date);
+    expect(state.gardenOfGrowth.plantedAt?.toISOString()).toBe('2024-05-01T12:00:00.000Z');
+    expect(state.offlineProgress.lastSaveTime).toBeInstanceOf(Date);
+    expect(state.questionPacks.imported).toEqual([]);
+    expect(state.settings.questionDifficulty).toBe('zone');
+  });
+
+  it('loads a v1 save and keeps its progression', () => {
+    const state = deserializeGameState(v1Save, createInitialGameState());
+
+    expect(state.coins).toBe(3000 + 1200);
+    expect(state.gameMode.current).toBe('blitz');
+    expect(state.progression.prestigeUpgrades).toEqual({ eternal_might: 1 });
+    expect(state.skills.lastRollTime).toBeInstanceOf(Date);
+    expect(state.dailyRewards.resetHour).toBe(6);
+  });
+
+  it('round-trips a fresh game', () => {
+    const initial = createInitialGameState();
+    const state = deserializeGameState(serializeGameState(initial), createInitialGameState());
+    expect(state.coins).toBe(initial.coins);
+    expect(state.statistics.sessionStartTime).toBeInstanceOf(Date);
+  });
+
+  it('rejects a save from a newer release', () => {
+    expect(() => deserializeGameState(tooNewSave, createInitialGameState())).toThrow(/newer than supported/);
+  });
+
+  it('rejects a save that fails validation', () => {
+    const save = JSON.parse(v1Save);
+    const broken = { ...save, playerStats: { ...save.playerStats, atk: 'strong' }, gameMode: { current: 'sudden_death' } };
+    expect(() => deserializeGameState(JSON.stringify(broken), createInitialGameState())).toThrow(/playerStats\.atk must be a number.*sudden_death/);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => deserializeGameState('{"coins": 1', createInitialGameState())).toThrow();
+  });
+});
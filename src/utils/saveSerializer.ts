@@ -0,0 +1,128 @@
+import { Achievement, DailyReward, GameState, PlayerTag } from '../types/game';
+import { migrateSave } from './saveMigrations';
+
+const gameModes: GameState['gameMode']['current'][] = ['normal', 'blitz', 'bloodlust', 'crazy', 'survival', 'timeAttack', 'boss'];
+
+// JSON.stringify turns Dates into ISO strings; turn them back, rejecting
+// anything that does not parse to a real point in time
+const reviveDate = (value: unknown): Date | null => {
+  if (value === null || value === undefined) return null;
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const reviveRequiredDate = (value: unknown, fallback: Date): Date => {
+  return reviveDate(value) ?? fallback;
+};
+
+const reviveOptionalDate = (value: unknown): Date | undefined => {
+  return reviveDate(value) ?? undefined;
+};
+
+const reviveDailyReward = (reward: DailyReward): DailyReward => ({
+  ...reward,
+  claimDate: reviveOptionalDate(reward.claimDate),
+});
+
+export const reviveGameStateDates = (state: GameState): GameState => {
+  const now = new Date();
+  const activeMenuSkill = state.skills.activeMenuSkill;
+
+  return {
+    ...state,
+    achievements: state.achievements.map((a: Achievement) => ({
+      ...a,
+      unlockedAt: reviveOptionalDate(a.unlockedAt),
+    })),
+    playerTags: state.playerTags.map((t: PlayerTag) => ({
+      ...t,
+      unlockedAt: reviveOptionalDate(t.unlockedAt),
+    })),
+    knowledgeStreak: {
+      ...state.knowledgeStreak,
+      lastCorrectTime: reviveOptionalDate(state.knowledgeStreak.lastCorrectTime),
+    },
+    statistics: {
+      ...state.statistics,
+      sessionStartTime: reviveRequiredDate(state.statistics.sessionStartTime, now),
+    },
+    yojefMarket: {
+      ...state.yojefMarket,
+      lastRefresh: reviveRequiredDate(state.yojefMarket.lastRefresh, now),
+      nextRefresh: reviveRequiredDate(state.yojefMarket.nextRefresh, now),
+    },
+    dailyRewards: {
+      ...state.dailyRewards,
+      lastClaimDate: reviveDate(state.dailyRewards.lastClaimDate),
+      availableReward: state.dailyRewards.availableReward && reviveDailyReward(state.dailyRewards.availableReward),
+      rewardHistory: state.dailyRewards.rewardHistory.map(reviveDailyReward),
+    },
+    offlineProgress: {
+      ...state.offlineProgress,
+      lastSaveTime: reviveRequiredDate(state.offlineProgress.lastSaveTime, now),
+    },
+    gardenOfGrowth: {
+      ...state.gardenOfGrowth,
+      plantedAt: reviveDate(state.gardenOfGrowth.plantedAt),
+      lastWatered: reviveDate(state.gardenOfGrowth.lastWatered),
+      lastTickAt: reviveDate(state.gardenOfGrowth.lastTickAt),
+    },
+    skills: {
+      ...state.skills,
+      activeMenuSkill: activeMenuSkill && {
+        ...activeMenuSkill,
+        activatedAt: reviveRequiredDate(activeMenuSkill.activatedAt, now),
+        expiresAt: reviveRequiredDate(activeMenuSkill.expiresAt, now),
+      },
+      lastRollTime: reviveDate(state.skills.lastRollTime),
+      sessionStartTime: reviveRequiredDate(state.skills.sessionStartTime, now),
+    },
+  };
+};
+
+const isFiniteNumber = (value: unknown): boolean => {
+  return typeof value === 'number' && isFinite(value);
+};
+
+// Returns a list of problems; an empty list means the state is safe to use
+export const validateGameState = (state: GameState): string[] => {
+  const errors: string[] = [];
+
+  (['coins', 'gems', 'shinyGems', 'zone'] as const).forEach(key => {
+    if (!isFiniteNumber(state[key])) errors.push(`${key} must be a number`);
+  });
+
+  (['hp', 'maxHp', 'atk', 'def', 'baseAtk', 'baseDef', 'baseHp'] as const).forEach(key => {
+    if (!isFiniteNumber(state.playerStats[key])) errors.push(`playerStats.${key} must be a number`);
+  });
+
+  (['weapons', 'armor', 'relics', 'equippedRelics'] as const).forEach(key => {
+    if (!Array.isArray(state.inventory[key])) errors.push(`inventory.${key} must be an array`);
+  });
+
+  if (!Array.isArray(state.achievements)) errors.push('achievements must be an array');
+  if (!Array.isArray(state.playerTags)) errors.push('playerTags must be an array');
+  if (!Array.isArray(state.dailyRewards.rewardHistory)) errors.push('dailyRewards.rewardHistory must be an array');
+  if (!Array.isArray(state.questionPacks.imported)) errors.push('questionPacks.imported must be an array');
+  if (!gameModes.includes(state.gameMode.current)) errors.push(`gameMode.current "${state.gameMode.current}" is not a known mode`);
+  if (state.inCombat && !state.currentEnemy) errors.push('inCombat is set without a currentEnemy');
+
+  return errors;
+};
+
+export const serializeGameState = (state: GameState): string => {
+  return JSON.stringify(state);
+};
+
+// Full load pipeline: parse, migrate to the current schema, revive dates and
+// validate. Throws if the save cannot be turned into a usable GameState.
+export const deserializeGameState = (json: string, defaults: GameState): GameState => {
+  const state = reviveGameStateDates(migrateSave(JSON.parse(json), defaults));
+
+  const errors = validateGameState(state);
+  if (errors.length > 0) {
+    throw new Error(`Invalid save data: ${errors.join('; ')}`);
+  }
+
+  return state;
+};
@@ -1,12 +1,8 @@
-export interface TriviaQuestion {
-  id: string;
-  question: string;
-  type: 'multiple-choice' | 'type-answer';
-  options?: string[];
-  correctAnswer: number | string;
-  category: string;
-  difficulty: 'easy' | 'medium' | 'hard';
-}
+import { QuestionHistory, TriviaQuestion } from '../types/game';
+import { selectQuestion } from './questionSelection';
+import { evaluateAnswer } from './answerChecking';
+
+const emptyHistory: QuestionHistory = { answered: 0, entries: {} };
 
 export const triviaQuestions: TriviaQuestion[] = [
   // EASY QUESTIONS - More common sense and basic knowledge
@@ -433,6 +429,7 @@ export const triviaQuestions: TriviaQuestion[] = [
     question: 'What gas do plants need to grow?',
     type: 'type-answer',
     correctAnswer: 'carbon dioxide',
+    aliases: ['co2'],
     category: 'Science',
     difficulty: 'medium'
   },
@@ -469,6 +466,7 @@ export const triviaQuestions: TriviaQuestion[] = [
     question: 'What is the longest river in the world?',
     type: 'type-answer',
     correctAnswer: 'nile',
+    aliases: ['nile river', 'river nile'],
     category: 'Geography',
     difficulty: 'medium'
   },
@@ -477,6 +475,7 @@ export const triviaQuestions: TriviaQuestion[] = [
     question: 'What is the smallest country in the world?',
     type: 'type-answer',
     correctAnswer: 'vatican city',
+    aliases: ['vatican', 'holy see'],
     category: 'Geography',
     difficulty: 'medium'
   },
@@ -507,6 +506,7 @@ export const triviaQuestions: TriviaQuestion[] = [
     question: 'What is the value of π (pi) to two decimal places?',
     type: 'type-answer',
     correctAnswer: '3.14',
+    numericTolerance: 0.005,
     category: 'Math',
     difficulty: 'hard'
   },
@@ -534,6 +534,7 @@ export const triviaQuestions: TriviaQuestion[] = [
     question: 'Who developed the theory of relativity?',
     type: 'type-answer',
     correctAnswer: 'einstein',
+    aliases: ['albert einstein'],
     category: 'Science',
     difficulty: 'hard'
   },
@@ -653,44 +654,57 @@ export const triviaQuestions: TriviaQuestion[] = [
   }
 ];
 
-export const getRandomQuestion = (difficulty?: 'easy' | 'medium' | 'hard'): TriviaQuestion => {
-  let filteredQuestions = triviaQuestions;
+// Draws from `questions` through the spaced-repetition selector, falling back
+// to the whole pool when it has nothing at the requested difficulty
+export const getRandomQuestion = (
+  difficulty?: 'easy' | 'medium' | 'hard',
+  questions: TriviaQuestion[] = triviaQuestions,
+  history: QuestionHistory = emptyHistory,
+  excludeIds: string[] = []
+): TriviaQuestion => {
+  let filteredQuestions = questions;
   
   if (difficulty) {
-    filteredQuestions = triviaQuestions.filter(q => q.difficulty === difficulty);
+    filteredQuestions = questions.filter(q => q.difficulty === difficulty);
+    if (filteredQuestions.length === 0) filteredQuestions = questions;
   }
   
-  const randomIndex = Math.floor(Math.random() * filteredQuestions.length);
-  return filteredQuestions[randomIndex];
+  return selectQuestion(filteredQuestions, history, excludeIds);
 };
 
-export const getQuestionByZone = (zone: number): TriviaQuestion => {
+const getZoneDifficulty = (zone: number): TriviaQuestion['difficulty'] => {
   // Much easier progression - mostly easy questions for longer
   if (zone <= 10) {
-    return getRandomQuestion('easy');
+    return 'easy';
   }
   // Medium questions for zones 11-25
   else if (zone <= 25) {
     // 70% easy, 30% medium for smoother transition
-    return Math.random() < 0.7 ? getRandomQuestion('easy') : getRandomQuestion('medium');
+    return Math.random() < 0.7 ? 'easy' : 'medium';
   }
   // Hard questions only for very high zones (26+)
   else {
     // 40% easy, 40% medium, 20% hard
     const rand = Math.random();
-    if (rand < 0.4) return getRandomQuestion('easy');
-    if (rand < 0.8) return getRandomQuestion('medium');
-    return getRandomQuestion('hard');
+    if (rand < 0.4) return 'easy';
+    if (rand < 0.8) return 'medium';
+    return 'hard';
   }
 };
 
+// The zone settles the difficulty; the history then decides which question
+// of that difficulty comes up
+export const getQuestionByZone = (
+  zone: number,
+  questions: TriviaQuestion[] = triviaQuestions,
+  history: QuestionHistory = emptyHistory,
+  excludeIds: string[] = []
+): TriviaQuestion => {
+  return getRandomQuestion(getZoneDifficulty(zone), questions, history, excludeIds);
+};
+
+// Strict yes/no; a close answer counts as wrong here. Use evaluateAnswer for
+// partial credit.
 export const checkAnswer = (question: TriviaQuestion, userAnswer: string | number): boolean => {
-  if (question.type === 'multiple-choice') {
-    return userAnswer === question.correctAnswer;
-  } else {
-    // Type answer - normalize both strings for comparison
-    const normalizedUserAnswer = String(userAnswer).toLowerCase().trim();
-    const normalizedCorrectAnswer = String(question.correctAnswer).toLowerCase().trim();
-    return normalizedUserAnswer === normalizedCorrectAnswer;
-  }
+  return evaluateAnswer(question, userAnswer) === 'correct';
 };
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialGameState } from '../hooks/useGameState';
+import { applyUnlocks } from './unlocks';
+
+describe('applyUnlocks', () => {
+  it('pays an achievement missing from an older save exactly once', () => {
+    const initial = createInitialGameState();
+    // An older save that predates every achievement except the first
+    const oldSave = { ...initial, zone: 10, achievements: initial.achievements.slice(0, 1) };
+
+    const first = applyUnlocks(oldSave);
+    const second = applyUnlocks(first);
+
+    expect(first.coins).toBe(initial.coins + 200);
+    expect(first.achievements.find(a => a.id === 'zone_master_10')?.unlocked).toBe(true);
+    expect(second.coins).toBe(first.coins);
+    expect(second.notificationQueue).toHaveLength(first.notificationQueue.length);
+  });
+
+  it('adds missing player tags locked', () => {
+    const state = applyUnlocks({ ...createInitialGameState(), playerTags: [] });
+    expect(state.playerTags.length).toBeGreaterThan(0);
+    expect(state.playerTags.every(t => !t.unlocked)).toBe(true);
+  });
+});
@@ -0,0 +1,70 @@
+import { Achievement, GameState, PlayerTag, UnlockNotification } from '../types/game';
+import { checkAchievements, initializeAchievements, updateAchievementProgress } from './achievements';
+import { checkPlayerTags, initializePlayerTags } from './playerTags';
+
+export const PREMIUM_ACCESS_REWARD = 'Premium Access';
+
+const createNotification = (kind: UnlockNotification['kind'], entry: Achievement | PlayerTag): UnlockNotification => ({
+  id: `${kind}_${entry.id}_${Date.now()}`,
+  kind,
+  title: entry.name,
+  description: entry.description,
+  icon: entry.icon,
+});
+
+// Saved arrays replace the defaults on load, so an older save has no entry
+// for anything added since. Missing entries are added locked so an unlock
+// has somewhere to be recorded and is not paid out again on the next check.
+const addMissingEntries = <T extends { id: string }>(saved: T[], initialize: () => T[]): T[] => {
+  const missing = initialize().filter(entry => !saved.some(s => s.id === entry.id));
+  return missing.length > 0 ? [...saved, ...missing] : saved;
+};
+
+// Runs after every state change: refreshes achievement progress, unlocks
+// anything newly earned and grants rewards. Rewards are only paid on the
+// locked -> unlocked transition, so each is granted exactly once. Returns the
+// same object when nothing changed.
+export const applyUnlocks = (savedState: GameState): GameState => {
+  const savedAchievements = addMissingEntries(savedState.achievements, initializeAchievements);
+  const savedTags = addMissingEntries(savedState.playerTags, initializePlayerTags);
+  const state = savedAchievements === savedState.achievements && savedTags === savedState.playerTags
+    ? savedState
+    : { ...savedState, achievements: savedAchievements, playerTags: savedTags };
+
+  const achievements = updateAchievementProgress(state);
+  const newAchievements = checkAchievements(state);
+  const newTags = checkPlayerTags(state);
+
+  if (achievements === state.achievements && newAchievements.length === 0 && newTags.length === 0) {
+    return state;
+  }
+
+  let coins = state.coins;
+  let gems = state.gems;
+  let isPremium = state.isPremium;
+
+  newAchievements.forEach(achievement => {
+    coins += achievement.reward?.coins || 0;
+    gems += achievement.reward?.gems || 0;
+    if (achievement.reward?.special === PREMIUM_ACCESS_REWARD) {
+      isPremium = true;
+    }
+  });
+
+  const notifications = state.settings.notifications
+    ? [
+        ...newAchievements.map(a => createNotification('achievement', a)),
+        ...newTags.map(t => createNotification('tag', t)),
+      ]
+    : [];
+
+  return {
+    ...state,
+    coins,
+    gems,
+    isPremium,
+    achievements: achievements.map(a => newAchievements.find(n => n.id === a.id) || a),
+    playerTags: state.playerTags.map(t => newTags.find(n => n.id === t.id) || t),
+    notificationQueue: [...state.notificationQueue, ...notifications],
+  };
+};
@@ -0,0 +1,55 @@
+import { YojefMarket } from '../types/game';
+import { generateRelicItem } from './gameUtils';
+
+export const DEFAULT_YOJEF_SLOTS = 6;
+export const YOJEF_REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+export const YOJEF_REROLL_BASE_COST = 50;
+export const YOJEF_REROLL_COST_STEP = 25;
+
+// +2% relic power per zone past the first and +10% per prestige
+export const getRelicQuality = (zone: number, prestigeLevel: number): number => {
+  return 1 + Math.max(0, zone - 1) * 0.02 + prestigeLevel * 0.1;
+};
+
+// Each manual reroll costs more until the next scheduled restock
+export const getYojefRerollCost = (market: YojefMarket): number => {
+  return YOJEF_REROLL_BASE_COST + market.rerollsSinceRefresh * YOJEF_REROLL_COST_STEP;
+};
+
+const rollStock = (market: YojefMarket, quality: number) => {
+  return Array.from({ length: market.slots }, () => generateRelicItem(quality));
+};
+
+export const restockYojefMarket = (market: YojefMarket, quality: number, now: Date): YojefMarket => ({
+  ...market,
+  items: rollStock(market, quality),
+  lastRefresh: now,
+  nextRefresh: new Date(now.getTime() + YOJEF_REFRESH_INTERVAL_MS),
+  rerollsSinceRefresh: 0,
+});
+
+// A paid reroll replaces the stock but leaves the refresh schedule alone
+export const rerollYojefMarket = (market: YojefMarket, quality: number): YojefMarket => ({
+  ...market,
+  items: rollStock(market, quality),
+  rerollsSinceRefresh: market.rerollsSinceRefresh + 1,
+});
+
+// Restocks once the refresh time has passed; several missed refreshes still
+// only restock once. If the clock moved back past the last refresh the
+// schedule is restarted from now instead of waiting out the gap.
+export const refreshYojefMarketIfDue = (market: YojefMarket, quality: number, now: Date): YojefMarket => {
+  if (now.getTime() >= market.nextRefresh.getTime()) {
+    return restockYojefMarket(market, quality, now);
+  }
+
+  if (now.getTime() < market.lastRefresh.getTime()) {
+    return {
+      ...market,
+      lastRefresh: now,
+      nextRefresh: new Date(now.getTime() + YOJEF_REFRESH_INTERVAL_MS),
+    };
+  }
+
+  return market;
+};